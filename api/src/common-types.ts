@@ -19,12 +19,41 @@
  * @module
  */
 
-import { type MidnightProviders } from '@midnight-ntwrk/midnight-js-types';
+import { type MidnightProviders, type WalletProvider } from '@midnight-ntwrk/midnight-js-types';
+import {
+  type ContractAddress,
+  type Signature,
+  type SignatureVerifyingKey,
+  type UserAddress,
+} from '@midnight-ntwrk/compact-runtime';
 import { type FoundContract } from '@midnight-ntwrk/midnight-js-contracts';
-import type { State, BBoardPrivateState, Contract, Witnesses } from '../../contract/src/index';
+import type { BBoardPrivateState, Contract, ReactionKind, Witnesses } from '../../contract/src/index';
+
+export { ReactionKind } from '../../contract/src/index';
 
 export const bboardPrivateStateKey = 'bboardPrivateState';
-export type PrivateStateId = typeof bboardPrivateStateKey;
+
+/**
+ * The identifier of a bulletin board private state.
+ *
+ * @remarks
+ * Private state is kept separately for each bulletin board, under an identifier that ends with the address
+ * of the board; see {@link bboardPrivateStateId}. The bare {@link bboardPrivateStateKey} identifies the private
+ * state that was shared by every board before then, which is only read to migrate it.
+ *
+ * @public
+ */
+export type PrivateStateId = typeof bboardPrivateStateKey | `${typeof bboardPrivateStateKey}:${string}`;
+
+/**
+ * Gets the identifier under which the private state for the bulletin board at a given address is kept.
+ *
+ * @param contractAddress The address of the bulletin board.
+ *
+ * @public
+ */
+export const bboardPrivateStateId = (contractAddress: ContractAddress): PrivateStateId =>
+  `${bboardPrivateStateKey}:${contractAddress}`;
 
 /**
  * The private states consumed throughout the application.
@@ -38,7 +67,8 @@ export type PrivateStateId = typeof bboardPrivateStateKey;
  * expected to be returned.
  *
  * Since there is only one contract type for the bulletin board example, we only define a
- * single key/type in the schema.
+ * single key/type in the schema. Each board keeps its own private state of this type, under the
+ * identifier given by {@link bboardPrivateStateId}.
  *
  * @public
  */
@@ -63,12 +93,35 @@ export type BBoardContract = Contract<BBoardPrivateState, Witnesses<BBoardPrivat
  */
 export type BBoardCircuitKeys = Exclude<keyof BBoardContract['impureCircuits'], number | symbol>;
 
+/**
+ * A wallet provider that can also identify the unshielded address of the current user, and their shielded balances.
+ *
+ * @public
+ */
+export interface BBoardWalletProvider extends WalletProvider {
+  /**
+   * Gets the hex-encoded unshielded address of the current user, to which the deposits of their posts
+   * are refunded.
+   */
+  getUnshieldedAddress(): Promise<UserAddress>;
+
+  /**
+   * Gets the balance that the current user holds of a given shielded token, so that posts to a token-gated board
+   * aren't attempted without a coin of its token.
+   *
+   * @param tokenType The hex-encoded raw type of the shielded token.
+   */
+  getShieldedBalance(tokenType: string): Promise<bigint>;
+}
+
 /**
  * The providers required by {@link BBoardContract}.
  *
  * @public
  */
-export type BBoardProviders = MidnightProviders<BBoardCircuitKeys, PrivateStateId, BBoardPrivateState>;
+export type BBoardProviders = MidnightProviders<BBoardCircuitKeys, PrivateStateId, BBoardPrivateState> & {
+  readonly walletProvider: BBoardWalletProvider;
+};
 
 /**
  * A {@link BBoardContract} that has been deployed to the network.
@@ -77,23 +130,476 @@ export type BBoardProviders = MidnightProviders<BBoardCircuitKeys, PrivateStateI
  */
 export type DeployedBBoardContract = FoundContract<BBoardContract>;
 
+/**
+ * The options used to configure a newly deployed {@link BBoardContract}.
+ *
+ * @public
+ */
+export type BBoardDeployOptions = {
+  /**
+   * The title of the board, which can't be changed once the board is deployed. Defaults to no title.
+   */
+  readonly title?: string;
+
+  /**
+   * A description of the purpose of the board, which can't be changed once the board is deployed. Defaults
+   * to no description.
+   */
+  readonly description?: string;
+
+  /**
+   * The number of seconds that a post remains on the board before any user may clear it.
+   * Defaults to one day.
+   */
+  readonly postLifetime?: bigint;
+
+  /**
+   * The amount of unshielded native tokens that must be deposited with each post, and which is refunded
+   * once the post leaves the board. Defaults to no deposit.
+   */
+  readonly deposit?: bigint;
+
+  /**
+   * Determines whether only members added by the deployer may post to the board. Defaults to `false`.
+   */
+  readonly membersOnly?: boolean;
+
+  /**
+   * The number of seconds for which sealed bids for a vacant slot are accepted, and then revealed. When
+   * non-zero, a vacant slot may only be posted to by the highest bidder in an auction for it. Defaults to
+   * `0`, in which case slots are claimed by whoever posts to them first.
+   */
+  readonly auctionWindow?: bigint;
+
+  /**
+   * The number of seconds that a user must wait to post again after taking down one of their posts. Defaults
+   * to `0`, in which case users may post again straight away.
+   */
+  readonly cooldown?: bigint;
+
+  /**
+   * The moderator keys of the users on the moderator committee of the board, who may take down any post once
+   * enough of them approve. Each key is found with `moderatorKey` on an instance of the API held by the user.
+   * Defaults to no committee.
+   */
+  readonly committee?: readonly Uint8Array[];
+
+  /**
+   * The number of committee members that must approve before a post is taken down. Defaults to the size of
+   * the committee.
+   */
+  readonly takeDownThreshold?: bigint;
+
+  /**
+   * The hex-encoded raw type of a shielded token that users must hold to post to the board. Each post takes a coin
+   * of the token from the poster, and hands it straight back as a shielded coin, so holding it can be proven without
+   * revealing which coin the poster holds, or the key that receives it back. Defaults to none, in which case anyone
+   * may post.
+   */
+  readonly gateToken?: string;
+};
+
+/**
+ * The options used to post a message to a bulletin board.
+ *
+ * @public
+ */
+export type BBoardPostOptions = {
+  /**
+   * Determines whether the message is encrypted with the board key held in the current private state, so that
+   * only users holding the same key can read it. Defaults to `false`.
+   */
+  readonly encrypted?: boolean;
+
+  /**
+   * The time from which the post is live, before which it may be cancelled, and can't be replied or reacted to.
+   * Defaults to now.
+   */
+  readonly visibleFrom?: Date;
+
+  /**
+   * Determines whether the post is made under the pseudonym of the current user on the board, so that it adds to
+   * their reputation. Defaults to `false`.
+   */
+  readonly pseudonymous?: boolean;
+
+  /**
+   * Determines whether other users may tip the post, which publishes the unshielded address of the current wallet
+   * with it so that tips can be paid to it. Defaults to `false`.
+   */
+  readonly acceptTips?: boolean;
+};
+
+/**
+ * The status of a post on a bulletin board.
+ *
+ * @remarks
+ * A post is `'scheduled'` until the time from which it is visible, and `'live'` from then on. Scheduled posts
+ * occupy their slot, but can't be replied or reacted to, and may be cancelled by their owner.
+ */
+export type BBoardPostStatus = 'scheduled' | 'live';
+
+/**
+ * A post occupying one of the slots of a bulletin board, as seen by the current user.
+ */
+export type BBoardPost = {
+  /**
+   * The slot that the post occupies.
+   */
+  readonly slot: bigint;
+
+  /**
+   * The board-wide sequence number that was assigned to the post when it was made.
+   */
+  readonly sequence: bigint;
+
+  /**
+   * The message of the post; or `undefined` if the post has been committed to, but not yet revealed, or if it
+   * is encrypted with a board key that the current user doesn't hold.
+   */
+  readonly message?: string;
+
+  /**
+   * A readonly flag that determines if the message of the post was encrypted with a board key.
+   *
+   * @remarks
+   * Encrypted messages are decrypted with the `boardKey` property of {@link BBoardPrivateState}. When the
+   * current user doesn't hold the key the message was encrypted with, `encrypted` is `true` and `message`
+   * is `undefined`.
+   */
+  readonly encrypted: boolean;
+
+  /**
+   * The message that the current user committed to for a post that has not yet been revealed.
+   *
+   * @remarks
+   * Only defined for posts committed to by the current user, since the message and salt behind the
+   * commitment are only held in the `pendingReveals` property of their {@link BBoardPrivateState}.
+   */
+  readonly pendingMessage?: string;
+
+  /**
+   * A readonly flag that determines if the post was made by the current user.
+   *
+   * @remarks
+   * The `owner` property of each post in the public (or ledger) state is the public key of the post owner,
+   * derived from the owner's secret key and the `sequence` of the post. The `secretKey` property of
+   * {@link BBoardPrivateState} is the secret key of the current user. If `owner` corresponds to the public
+   * key derived from `secretKey`, then `isOwner` is `true`.
+   */
+  readonly isOwner: boolean;
+
+  /**
+   * A readonly flag that determines if the owner of the post has added the current user as its delegate, so that
+   * they may take it down.
+   */
+  readonly isDelegate: boolean;
+
+  /**
+   * A readonly flag that determines if the owner of the post has added a delegate, who may take it down.
+   */
+  readonly hasDelegate: boolean;
+
+  /**
+   * The time at which the post expires, after which any user may clear it from the board.
+   */
+  readonly expiresAt: Date;
+
+  /**
+   * The time from which the post is live.
+   */
+  readonly visibleFrom: Date;
+
+  /**
+   * The status of the post when the state was derived.
+   *
+   * @remarks
+   * The state is only derived again when the ledger or private state changes, so a scheduled post may have gone
+   * live since. Compare `visibleFrom` with the current time where the status must be up to date.
+   */
+  readonly status: BBoardPostStatus;
+
+  /**
+   * The replies made to the post, oldest first.
+   */
+  readonly replies: readonly string[];
+
+  /**
+   * The number of reactions of each kind made to the post.
+   */
+  readonly reactions: Readonly<Record<ReactionKind, bigint>>;
+
+  /**
+   * A readonly flag that determines if the current user has reacted to the post.
+   *
+   * @remarks
+   * Each reaction records a nullifier derived from the reacting user's secret key and the `sequence` of the post,
+   * which can't be linked to the user without their secret key. If the nullifier derived from the `secretKey`
+   * property of {@link BBoardPrivateState} has been recorded, then `hasReacted` is `true`.
+   */
+  readonly hasReacted: boolean;
+
+  /**
+   * A readonly flag that determines if the post may be tipped, which is only the case if the user that made it
+   * opted in to tips when posting it.
+   */
+  readonly acceptsTips: boolean;
+
+  /**
+   * The total amount of unshielded native tokens tipped to the user that made the post.
+   */
+  readonly tips: bigint;
+
+  /**
+   * The reputation of the pseudonym that the post was made under; or `undefined` if it was made without one.
+   *
+   * @remarks
+   * Posters may opt in to posting under a pseudonym that stays the same for every post they make to the board,
+   * unlike their owner keys. The reputation of a pseudonym counts the posts made under it, and the reactions that
+   * those posts have received. Since anyone can react again with a fresh secret key on an open board, reputation
+   * there can be inflated, and is only resistant to that on members-only boards.
+   */
+  readonly reputation?: bigint;
+
+  /**
+   * The number of approvals still needed from the moderator committee before the post is taken down; or
+   * `undefined` if no take down has been proposed for the post.
+   */
+  readonly pendingApprovals?: bigint;
+
+  /**
+   * A readonly flag that determines if the current user has approved taking down the post.
+   *
+   * @remarks
+   * Like reactions, each approval records a nullifier derived from the approving moderator's secret key and the
+   * `sequence` of the post, which can't be linked to the moderator without their secret key.
+   */
+  readonly hasApproved: boolean;
+};
+
+/**
+ * An auction for a vacant slot of a bulletin board, as seen by the current user.
+ */
+export type BBoardAuction = {
+  /**
+   * The slot being auctioned.
+   */
+  readonly slot: bigint;
+
+  /**
+   * The time at which bidding closes, after which bids may be revealed.
+   */
+  readonly biddingEndsAt: Date;
+
+  /**
+   * The time at which the auction closes, after which the winner may post to the slot.
+   */
+  readonly revealEndsAt: Date;
+
+  /**
+   * The highest bid revealed so far; or `0n` if no bid has been revealed.
+   */
+  readonly highestBid: bigint;
+
+  /**
+   * A readonly flag that determines if the current user has a sealed bid for the slot that is yet to be revealed.
+   *
+   * @remarks
+   * Only the amount and salt behind sealed bids made by the current user are known, since they are only held in
+   * the `pendingBids` property of their {@link BBoardPrivateState}.
+   */
+  readonly hasSealedBid: boolean;
+
+  /**
+   * A readonly flag that determines if the highest bid revealed so far was made by the current user.
+   */
+  readonly isWinner: boolean;
+};
+
+/**
+ * A proof that the current user wrote the post made to a bulletin board with a given sequence.
+ *
+ * @remarks
+ * Each post records an author key in the `authors` of the public (or ledger) state, which the `post` circuit
+ * derives from a secret given by the poster's secret key and the sequence of the post, and from the hash of a
+ * verifying key that the poster holds the signing key for. The proof reveals that secret and verifying key, along
+ * with a signature made with the matching signing key over the board, sequence and challenge. Anyone may check the
+ * proof with `verifyAuthorship` against a ledger state of the board, offline and without learning the prover's
+ * secret key, or anything about their other posts.
+ */
+export type BBoardAuthorshipProof = {
+  /**
+   * The address of the bulletin board that the post was made to.
+   */
+  readonly contractAddress: ContractAddress;
+
+  /**
+   * The sequence of the post.
+   */
+  readonly sequence: bigint;
+
+  /**
+   * The challenge that the proof was made for. Verifiers should choose a fresh challenge for each proof that
+   * they ask for, so that a claim made for somebody else can't be passed off as an answer to theirs.
+   */
+  readonly challenge: Uint8Array;
+
+  /**
+   * The verifying key of the author of the post, whose hash is the author key recorded for the post.
+   */
+  readonly verifyingKey: SignatureVerifyingKey;
+
+  /**
+   * The secret that the post's author key was derived from, along with the hash of `verifyingKey`. Only the secret
+   * key that the post was made with derives it, but it doesn't reveal that secret key, or link to any other post.
+   */
+  readonly authorSecret: Uint8Array;
+
+  /**
+   * The signature of the claim that the post was written by the holder of `verifyingKey`.
+   */
+  readonly signature: Signature;
+};
+
 /**
  * A type that represents the derived combination of public (or ledger), and private state.
  */
 export type BBoardDerivedState = {
-  readonly state: State;
+  /**
+   * The title of the board; or an empty string if it was deployed without one.
+   */
+  readonly title: string;
+
+  /**
+   * The description of the board; or an empty string if it was deployed without one.
+   */
+  readonly description: string;
+
+  /**
+   * The hex-encoded commitment that identifies the creator of the board.
+   *
+   * @remarks
+   * The commitment is the `deployer` property of the public (or ledger) state, which is derived from the secret
+   * key of the user that deployed the board. It can be used to tell boards created by the same user apart from
+   * others, without revealing who that user is.
+   */
+  readonly creator: string;
+
+  /**
+   * The sequence number that will be assigned to the next post.
+   */
   readonly sequence: bigint;
-  readonly message: string | undefined;
 
   /**
-   * A readonly flag that determines if the current message was posted by the current user.
+   * The posts currently on the board, ordered by slot. Vacant slots are not included.
+   */
+  readonly posts: readonly BBoardPost[];
+
+  /**
+   * A readonly flag that determines if the current user is the moderator of the board.
    *
    * @remarks
-   * The `owner` property of the public (or ledger) state is the public key of the message owner, while
-   * the `secretKey` property of {@link BBoardPrivateState} is the secret key of the current user. If
-   * `owner` corresponds to the public key derived from `secretKey`, then `isOwner` is `true`.
+   * The moderator is the user that deployed the board, and may take down any post. The `moderator` property
+   * of the public (or ledger) state is a commitment to the deployer's secret key. If it corresponds to the
+   * commitment derived from the `secretKey` property of {@link BBoardPrivateState}, then `isModerator` is `true`.
    */
-  readonly isOwner: boolean;
+  readonly isModerator: boolean;
+
+  /**
+   * The number of members of the moderator committee that must approve before a post is taken down; or `0n` if
+   * the board has no moderator committee.
+   */
+  readonly takeDownThreshold: bigint;
+
+  /**
+   * A readonly flag that determines if the current user is on the moderator committee of the board.
+   *
+   * @remarks
+   * The `committee` property of the public (or ledger) state is a Merkle tree of moderator keys, fixed at
+   * deployment, in which committee members prove that their key is when they approve a take down.
+   */
+  readonly isCommitteeMember: boolean;
+
+  /**
+   * The hex-encoded raw type of the shielded token that users must hold to post to the board; or `undefined` if
+   * the board isn't token-gated.
+   */
+  readonly gateToken?: string;
+
+  /**
+   * The amount of unshielded native tokens that must be deposited with each post.
+   */
+  readonly deposit: bigint;
+
+  /**
+   * A readonly flag that determines if the current user deployed the board, and so may add members to it.
+   */
+  readonly isDeployer: boolean;
+
+  /**
+   * A readonly flag that determines if only members of the board may post to it.
+   */
+  readonly membersOnly: boolean;
+
+  /**
+   * A readonly flag that determines if the current user is a member of the board.
+   *
+   * @remarks
+   * The `members` property of the public (or ledger) state is a Merkle tree of member keys, each derived from
+   * the secret key of a member. Members prove that their key is in the tree when they post, without revealing
+   * which key is theirs.
+   */
+  readonly isMember: boolean;
+
+  /**
+   * A readonly flag that determines if the board has been paused by its deployer. While paused, no post may be
+   * made, revealed, edited, transferred, taken down or cleared, other than by the moderator of the board.
+   */
+  readonly paused: boolean;
+
+  /**
+   * A readonly flag that determines if the current user holds a board key, with which they may post
+   * encrypted messages.
+   */
+  readonly hasBoardKey: boolean;
+
+  /**
+   * The number of seconds for which bids for a vacant slot are accepted, and then revealed; or `0n` if the
+   * board doesn't auction its slots.
+   */
+  readonly auctionWindow: bigint;
+
+  /**
+   * The auctions currently running for vacant slots, ordered by slot.
+   */
+  readonly auctions: readonly BBoardAuction[];
+
+  /**
+   * The number of seconds that a user must wait to post again after taking down one of their posts.
+   */
+  readonly cooldown: bigint;
+
+  /**
+   * The time at which the current user may post again after taking down a post; or `undefined` if they have
+   * no cooldown recorded.
+   *
+   * @remarks
+   * The `cooldowns` property of the public (or ledger) state is keyed by a rate-limit key derived from the
+   * secret key of each user, which can't be linked to the user or to their owner keys without their secret key.
+   * If the rate-limit key derived from the `secretKey` property of {@link BBoardPrivateState} is recorded, then
+   * `cooldownEndsAt` is the time it was recorded with, which may already have passed.
+   */
+  readonly cooldownEndsAt?: Date;
+
+  /**
+   * The reputation that the current user has built on the board by posting under their pseudonym; or `0n` if
+   * they have never done so.
+   *
+   * @remarks
+   * The pseudonym is derived from the `secretKey` property of {@link BBoardPrivateState} and the address of the
+   * board, so it can't be linked to the pseudonyms of the same user on other boards.
+   */
+  readonly reputation: bigint;
 };
 
 // TODO: for some reason I needed to include "@midnight-ntwrk/wallet-sdk-address-format": "1.0.0-rc.1", should we bump in to rc-2 ?
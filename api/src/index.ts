@@ -21,24 +21,57 @@
 
 import * as BBoard from '../../contract/src/managed/bboard/contract/index.js';
 
-import { type ContractAddress, convertFieldToBytes } from '@midnight-ntwrk/compact-runtime';
+import { type ContractAddress, convertFieldToBytes, encodeContractAddress } from '@midnight-ntwrk/compact-runtime';
 import { type Logger } from 'pino';
 import {
+  type BBoardAuthorshipProof,
+  type BBoardDeployOptions,
   type BBoardDerivedState,
   type BBoardContract,
+  type BBoardPostOptions,
   type BBoardProviders,
   type DeployedBBoardContract,
+  type PrivateStateId,
+  bboardPrivateStateId,
   bboardPrivateStateKey,
+  ReactionKind,
 } from './common-types.js';
-import { type BBoardPrivateState, createBBoardPrivateState, witnesses } from '../../contract/src/index';
+import {
+  authorKey,
+  type BBoardPrivateState,
+  createBBoardPrivateState,
+  isAuthorshipSignature,
+  loadBBoardPrivateState,
+  migrateBBoardPrivateState,
+  signAuthorship,
+  witnesses,
+} from '../../contract/src/index';
 import * as utils from './utils/index.js';
 import { deployContract, findDeployedContract } from '@midnight-ntwrk/midnight-js-contracts';
-import { combineLatest, map, tap, from, type Observable } from 'rxjs';
-import { toHex } from '@midnight-ntwrk/midnight-js-utils';
+import { BehaviorSubject, combineLatest, concatMap, map, tap, from, type Observable } from 'rxjs';
+import { fromHex, toHex } from '@midnight-ntwrk/midnight-js-utils';
 
 /** @internal */
 const bboardContractInstance: BBoardContract = new BBoard.Contract(witnesses);
 
+/**
+ * The number of seconds a post remains on a board when no `postLifetime` is given at deployment.
+ */
+export const DEFAULT_POST_LIFETIME = 86_400n;
+
+/**
+ * The largest moderator committee that a board may be deployed with.
+ */
+export const MAX_COMMITTEE_SIZE = 16;
+
+/**
+ * The number of seconds by which the local clock may run ahead of the block time without causing
+ * a post to be rejected for outliving the board's post lifetime.
+ *
+ * @internal
+ */
+const CLOCK_SKEW_ALLOWANCE = 60n;
+
 /**
  * An API for a deployed bulletin board.
  */
@@ -46,8 +79,35 @@ export interface DeployedBBoardAPI {
   readonly deployedContractAddress: ContractAddress;
   readonly state$: Observable<BBoardDerivedState>;
 
-  post: (message: string) => Promise<void>;
-  takeDown: () => Promise<void>;
+  post: (slot: bigint, message: string, options?: BBoardPostOptions) => Promise<void>;
+  cancelPost: (slot: bigint) => Promise<void>;
+  commitPost: (slot: bigint, message: string) => Promise<void>;
+  reveal: (slot: bigint) => Promise<void>;
+  reply: (slot: bigint, text: string) => Promise<void>;
+  react: (slot: bigint, kind: ReactionKind) => Promise<void>;
+  tip: (slot: bigint, amount: bigint) => Promise<void>;
+  takeDown: (slot: bigint) => Promise<void>;
+  edit: (slot: bigint, message: string) => Promise<void>;
+  transferOwnership: (slot: bigint, newOwner: Uint8Array) => Promise<void>;
+  ownerCommitment: (sequence: bigint) => Promise<Uint8Array>;
+  addDelegate: (slot: bigint, delegate: Uint8Array) => Promise<void>;
+  delegateKey: (sequence: bigint) => Promise<Uint8Array>;
+  clearExpired: (slot: bigint) => Promise<void>;
+  moderatorTakeDown: (slot: bigint) => Promise<void>;
+  proposeTakeDown: (slot: bigint) => Promise<void>;
+  approveTakeDown: (slot: bigint) => Promise<void>;
+  bid: (slot: bigint, amount: bigint) => Promise<void>;
+  revealBid: (slot: bigint) => Promise<void>;
+  settleAuction: (slot: bigint) => Promise<void>;
+  addMember: (member: Uint8Array) => Promise<void>;
+  pause: () => Promise<void>;
+  unpause: () => Promise<void>;
+  memberKey: () => Promise<Uint8Array>;
+  moderatorKey: () => Promise<Uint8Array>;
+  wasPosted: (sequence: bigint, message: string) => Promise<boolean>;
+  proveAuthorship: (sequence: bigint, challenge: Uint8Array) => Promise<BBoardAuthorshipProof>;
+  verifyAuthorship: (proof: BBoardAuthorshipProof) => Promise<boolean>;
+  setBoardKey: (boardKey: Uint8Array | undefined) => Promise<void>;
 }
 
 /**
@@ -55,63 +115,152 @@ export interface DeployedBBoardAPI {
  * contract.
  *
  * @remarks
- * The `BBoardPrivateState` is managed at the DApp level by a private state provider. As such, this
- * private state is shared between all instances of {@link BBoardAPI}, and their underlying deployed
- * contracts. The private state defines a `'secretKey'` property that effectively identifies the current
- * user, and is used to determine if the current user is the owner of the message as the observable
- * contract state changes.
- *
- * In the future, Midnight.js will provide a private state provider that supports private state storage
- * keyed by contract address. This will remove the current workaround of sharing private state across
- * the deployed bulletin board contracts, and allows for a unique secret key to be generated for each bulletin
- * board that the user interacts with.
- */
-// TODO: Update BBoardAPI to use contract level private state storage.
+ * The `BBoardPrivateState` is managed at the DApp level by a private state provider, keyed by the address
+ * of each deployed contract with {@link bboardPrivateStateId}. As such, each bulletin board that the user
+ * interacts with has a private state of its own. The private state defines a `'secretKey'` property that
+ * effectively identifies the current user, and is used to determine if the current user is the owner of
+ * each post as the observable contract state changes. A fresh secret key is generated when a board is
+ * deployed or first joined, so the user can't be linked across boards by their keys.
+ *
+ * Private state used to be shared between all bulletin boards, under {@link bboardPrivateStateKey}. When
+ * a board is first joined, its private state is copied from the shared private state if the shared secret
+ * key has already been used with the board, so that users keep their posts and roles on the boards they
+ * used before.
+ */
 export class BBoardAPI implements DeployedBBoardAPI {
   /** @internal */
   private constructor(
     public readonly deployedContract: DeployedBBoardContract,
-    providers: BBoardProviders,
+    private readonly providers: BBoardProviders,
     private readonly logger?: Logger,
   ) {
     this.deployedContractAddress = deployedContract.deployTxData.public.contractAddress;
-    this.state$ = combineLatest(
-      [
-        // Combine public (ledger) state with...
-        providers.publicDataProvider.contractStateObservable(this.deployedContractAddress, { type: 'latest' }).pipe(
-          map((contractState) => BBoard.ledger(contractState.data)),
-          tap((ledgerState) =>
-            logger?.trace({
-              ledgerStateChanged: {
-                ledgerState: {
-                  ...ledgerState,
-                  state: ledgerState.state === BBoard.State.OCCUPIED ? 'occupied' : 'vacant',
-                  owner: toHex(ledgerState.owner),
-                },
+    this.privateStateId = bboardPrivateStateId(this.deployedContractAddress);
+    this.privateStateChanged$ = new BehaviorSubject<void>(undefined);
+    this.state$ = combineLatest([
+      // Combine public (ledger) state with...
+      providers.publicDataProvider.contractStateObservable(this.deployedContractAddress, { type: 'latest' }).pipe(
+        map((contractState) => BBoard.ledger(contractState.data)),
+        tap((ledgerState) =>
+          logger?.trace({
+            ledgerStateChanged: {
+              ledgerState: {
+                sequence: ledgerState.sequence,
+                moderator: toHex(ledgerState.moderator),
+                deposit: ledgerState.deposit,
+                membersOnly: ledgerState.membersOnly,
+                paused: ledgerState.paused,
+                posts: Array.from(ledgerState.posts, ([slot, post]) => ({
+                  slot,
+                  sequence: post.sequence,
+                  revealed: post.message.is_some,
+                  owner: toHex(post.owner),
+                  expiresAt: post.expiresAt,
+                })),
               },
+            },
+          }),
+        ),
+      ),
+      // ...private state...
+      //    the private state only changes when this instance commits to, or reveals, a post, or sets the board
+      //    key; so rather than polling the private state provider, we query it again whenever
+      //    `privateStateChanged$` is notified of a change.
+      this.privateStateChanged$.pipe(
+        concatMap(() => from(BBoardAPI.getPrivateState(providers, this.deployedContractAddress))),
+      ),
+    ]).pipe(
+      // ...and combine them to produce the required derived state. Since encrypted messages are decrypted
+      //    asynchronously, each combination is derived in turn so that the derived states are kept in order.
+      concatMap(async ([ledgerState, privateState]) => ({
+        title: ledgerState.title,
+        description: ledgerState.description,
+        creator: toHex(ledgerState.deployer),
+        sequence: ledgerState.sequence,
+        posts: (
+          await Promise.all(
+            Array.from(ledgerState.posts, async ([slot, post]) => {
+              const sequence = convertFieldToBytes(32, post.sequence, 'api/src/index.ts');
+              const hashedSecretKey = BBoard.pureCircuits.publicKey(privateState.secretKey, sequence);
+              const encrypted = post.message.is_some && utils.isEncryptedMessage(post.message.value);
+
+              return {
+                slot,
+                sequence: post.sequence,
+                message: !post.message.is_some
+                  ? undefined
+                  : encrypted
+                    ? await decryptWithBoardKey(privateState, post.message.value)
+                    : post.message.value,
+                encrypted,
+                pendingMessage: post.message.is_some
+                  ? undefined
+                  : privateState.pendingReveals[toHex(post.commitment)]?.message,
+                isOwner: toHex(post.owner) === toHex(hashedSecretKey),
+                isDelegate:
+                  ledgerState.delegates.member(post.sequence) &&
+                  toHex(ledgerState.delegates.lookup(post.sequence)) ===
+                    toHex(BBoard.pureCircuits.delegateKey(privateState.secretKey, sequence)),
+                hasDelegate: ledgerState.delegates.member(post.sequence),
+                expiresAt: new Date(Number(post.expiresAt) * 1_000),
+                visibleFrom: new Date(Number(post.visibleFrom) * 1_000),
+                status: post.visibleFrom * 1_000n > BigInt(Date.now()) ? ('scheduled' as const) : ('live' as const),
+                // Replies are pushed to the front of the list on the ledger, so we reverse them to list them oldest first.
+                replies: ledgerState.replies.member(post.sequence)
+                  ? Array.from(ledgerState.replies.lookup(post.sequence)).reverse()
+                  : [],
+                reactions: {
+                  [ReactionKind.seen]: countReactions(ledgerState, post.sequence, ReactionKind.seen),
+                  [ReactionKind.plusOne]: countReactions(ledgerState, post.sequence, ReactionKind.plusOne),
+                },
+                hasReacted: ledgerState.reactionNullifiers.member(
+                  BBoard.pureCircuits.reactionNullifier(privateState.secretKey, sequence),
+                ),
+                acceptsTips: ledgerState.tipAddresses.member(post.sequence),
+                tips: ledgerState.tips.member(post.sequence) ? ledgerState.tips.lookup(post.sequence) : 0n,
+                reputation: ledgerState.pseudonyms.member(post.sequence)
+                  ? reputationOf(ledgerState, ledgerState.pseudonyms.lookup(post.sequence))
+                  : undefined,
+                pendingApprovals: ledgerState.takeDownApprovals.member(post.sequence)
+                  ? ledgerState.takeDownThreshold - ledgerState.takeDownApprovals.lookup(post.sequence)
+                  : undefined,
+                hasApproved: ledgerState.approvalNullifiers.member(
+                  BBoard.pureCircuits.approvalNullifier(privateState.secretKey, sequence),
+                ),
+              };
             }),
-          ),
+          )
+        ).sort((a, b) => (a.slot < b.slot ? -1 : a.slot > b.slot ? 1 : 0)),
+        isModerator: toHex(ledgerState.moderator) === toHex(BBoard.pureCircuits.moderatorKey(privateState.secretKey)),
+        takeDownThreshold: ledgerState.takeDownThreshold,
+        gateToken: isUngated(ledgerState.gateToken) ? undefined : toHex(ledgerState.gateToken),
+        isCommitteeMember:
+          ledgerState.committee.findPathForLeaf(BBoard.pureCircuits.moderatorKey(privateState.secretKey)) !== undefined,
+        deposit: ledgerState.deposit,
+        isDeployer: toHex(ledgerState.deployer) === toHex(BBoard.pureCircuits.deployerKey(privateState.secretKey)),
+        membersOnly: ledgerState.membersOnly,
+        isMember:
+          ledgerState.members.findPathForLeaf(BBoard.pureCircuits.memberKey(privateState.secretKey)) !== undefined,
+        paused: ledgerState.paused,
+        hasBoardKey: privateState.boardKey !== undefined,
+        cooldown: ledgerState.cooldown,
+        cooldownEndsAt: cooldownEnd(ledgerState, privateState),
+        reputation: reputationOf(
+          ledgerState,
+          BBoard.pureCircuits.pseudonym(privateState.secretKey, encodeContractAddress(this.deployedContractAddress)),
         ),
-        // ...private state...
-        //    since the private state of the bulletin board application never changes, we can query the
-        //    private state once and always use the same value with `combineLatest`. In applications
-        //    where the private state is expected to change, we would need to make this an `Observable`.
-        from(providers.privateStateProvider.get(bboardPrivateStateKey) as Promise<BBoardPrivateState>),
-      ],
-      // ...and combine them to produce the required derived state.
-      (ledgerState, privateState) => {
-        const hashedSecretKey = BBoard.pureCircuits.publicKey(
-          privateState.secretKey,
-          convertFieldToBytes(32, ledgerState.sequence, 'api/src/index.ts'),
-        );
-
-        return {
-          state: ledgerState.state,
-          message: ledgerState.message.value,
-          sequence: ledgerState.sequence,
-          isOwner: toHex(ledgerState.owner) === toHex(hashedSecretKey),
-        };
-      },
+        auctionWindow: ledgerState.auctionWindow,
+        auctions: Array.from(ledgerState.auctions, ([slot, auction]) => ({
+          slot,
+          biddingEndsAt: new Date(Number(auction.biddingEndsAt) * 1_000),
+          revealEndsAt: new Date(Number(auction.revealEndsAt) * 1_000),
+          highestBid: auction.highestBid,
+          hasSealedBid: findPendingBid(ledgerState, privateState, slot) !== undefined,
+          isWinner:
+            auction.highestBid !== 0n &&
+            toHex(auction.winner) === toHex(BBoard.pureCircuits.bidderKey(privateState.secretKey, auction.winnerSalt)),
+        })).sort((a, b) => (a.slot < b.slot ? -1 : a.slot > b.slot ? 1 : 0)),
+      })),
     );
   }
 
@@ -126,18 +275,57 @@ export class BBoardAPI implements DeployedBBoardAPI {
    */
   readonly state$: Observable<BBoardDerivedState>;
 
+  /** @internal */
+  private readonly privateStateId: PrivateStateId;
+
+  /** @internal */
+  private readonly privateStateChanged$: BehaviorSubject<void>;
+
   /**
-   * Attempts to post a given message to the bulletin board.
+   * Attempts to post a given message to a slot of the bulletin board.
    *
+   * @param slot The slot to post the message to.
    * @param message The message to post.
+   * @param options The options used to post the message, which determine whether it is encrypted, when it goes
+   * live, whether it is made under a pseudonym, and whether it may be tipped. A scheduled post may be cancelled
+   * with {@link cancelPost} until it goes live.
    *
    * @remarks
-   * This method can fail during local circuit execution if the bulletin board is currently occupied.
+   * The message is posted with the longest lifetime that the board allows from the time that it goes live, after
+   * which any user may clear it. The message of a scheduled post is published with it, so it should be encrypted
+   * if it mustn't be read before it goes live. If the board requires a deposit, it is paid from the unshielded
+   * balance of the current wallet, and refunded to the same wallet once the post leaves the board, so the
+   * unshielded address of the wallet is published with the post. No address is published on boards that take
+   * neither deposits nor bids. This method fails if the current user is still cooling down from taking down a
+   * post, or if the board is token-gated and the current wallet holds none of its token; and can fail during
+   * local circuit execution if the slot is currently occupied.
+   *
+   * The history of the board records encrypted messages as they were posted, so {@link wasPosted} can't
+   * confirm the plaintext of an encrypted message. Posts made under a pseudonym can be linked to each other,
+   * though not to the other posts of the current user, or to their pseudonyms on other boards. Posts that accept
+   * tips can be linked to each other, and to the current wallet, by the unshielded address published with them.
    */
-  async post(message: string): Promise<void> {
-    this.logger?.info(`postingMessage: ${message}`);
+  async post(slot: bigint, message: string, options: BBoardPostOptions = {}): Promise<void> {
+    const { encrypted = false, visibleFrom, pseudonymous = false, acceptTips = false } = options;
+    this.logger?.info(
+      `postingMessage: ${encrypted ? '(encrypted)' : message} (slot ${slot}, visible from ${visibleFrom?.toISOString() ?? 'now'}${pseudonymous ? ', under pseudonym' : ''}${acceptTips ? ', accepting tips' : ''})`,
+    );
 
-    const txData = await this.deployedContract.callTx.post(message);
+    await this.assertNotCoolingDown();
+    await this.assertHoldsGateToken();
+
+    const visibleFromSeconds = visibleFrom === undefined ? 0n : BigInt(Math.floor(visibleFrom.getTime() / 1_000));
+    const txData = await this.deployedContract.callTx.post(
+      slot,
+      encrypted ? await this.encrypt(message) : message,
+      visibleFrom === undefined ? this.nextExpiry() : this.scheduledExpiry(visibleFromSeconds),
+      await this.refundAddress(),
+      visibleFromSeconds,
+      pseudonymous,
+      acceptTips
+        ? { is_some: true, value: { bytes: fromHex(await this.providers.walletProvider.getUnshieldedAddress()) } }
+        : { is_some: false, value: { bytes: new Uint8Array(32) } },
+    );
 
     this.logger?.trace({
       transactionAdded: {
@@ -149,17 +337,181 @@ export class BBoardAPI implements DeployedBBoardAPI {
   }
 
   /**
-   * Attempts to take down any currently posted message on the bulletin board.
+   * Attempts to claim a slot of the bulletin board with a commitment to a given message, which can be
+   * revealed later with {@link reveal}.
+   *
+   * @param slot The slot to claim.
+   * @param message The message to commit to.
    *
    * @remarks
-   * This method can fail during local circuit execution if the bulletin board is currently vacant,
-   * or if the currently posted message isn't owned by the owner computed from the current private
-   * state.
+   * Only a hash of the message and a random salt is published, so the message isn't visible to other users
+   * until it is revealed. The message and salt are kept in the current private state, so that this user may
+   * reveal the post without providing them again. The post is otherwise made in the same way as with
+   * {@link post}, and this method can fail for the same reasons.
+   */
+  async commitPost(slot: bigint, message: string): Promise<void> {
+    this.logger?.info(`committingMessage: slot ${slot}`);
+
+    await this.assertNotCoolingDown();
+    await this.assertHoldsGateToken();
+
+    const salt = utils.randomBytes(32);
+    const commitment = BBoard.pureCircuits.postCommitment(message, salt);
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+
+    // The salt is stored before the commitment is published, so that the post can always be revealed, and is
+    // forgotten again if the commitment isn't published after all.
+    await this.providers.privateStateProvider.set(this.privateStateId, {
+      ...privateState,
+      pendingReveals: { ...privateState.pendingReveals, [toHex(commitment)]: { message, salt } },
+    });
+    this.privateStateChanged$.next();
+
+    const txData = await this.deployedContract.callTx
+      .commitPost(slot, commitment, this.nextExpiry(), await this.refundAddress())
+      .catch(async (error: unknown) => {
+        await this.forgetPendingReveal(toHex(commitment));
+        throw error;
+      });
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'commitPost',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to reveal the message behind a post that the current user committed to with {@link commitPost}.
+   *
+   * @param slot The slot holding the post to reveal.
+   *
+   * @remarks
+   * This method fails if the message and salt behind the commitment aren't held in the current private
+   * state. It can also fail during local circuit execution if the slot is currently vacant, if its post has
+   * already been revealed, or if the post isn't owned by the owner computed from the current private state.
+   */
+  async reveal(slot: bigint): Promise<void> {
+    this.logger?.info(`revealingMessage: slot ${slot}`);
+
+    const ledgerState = await this.queryLedgerState();
+    const commitment = ledgerState.posts.member(slot) ? toHex(ledgerState.posts.lookup(slot).commitment) : undefined;
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const pendingReveal = commitment === undefined ? undefined : privateState.pendingReveals[commitment];
+
+    if (commitment === undefined || pendingReveal === undefined) {
+      throw new Error(`No committed message to reveal in slot ${slot}`);
+    }
+
+    const txData = await this.deployedContract.callTx.reveal(slot, pendingReveal.message, pendingReveal.salt);
+
+    await this.forgetPendingReveal(commitment);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'reveal',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to reply to the message currently posted to a slot of the bulletin board.
+   *
+   * @param slot The slot holding the message to reply to.
+   * @param text The text of the reply.
+   *
+   * @remarks
+   * Any user may reply to a post, and its replies are cleared when it leaves the board. This method can fail
+   * during local circuit execution if the slot is currently vacant, or if its post hasn't been revealed.
+   */
+  async reply(slot: bigint, text: string): Promise<void> {
+    this.logger?.info(`replyingToMessage: ${text} (slot ${slot})`);
+
+    const txData = await this.deployedContract.callTx.reply(slot, text);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'reply',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to react to the message currently posted to a slot of the bulletin board.
+   *
+   * @param slot The slot holding the message to react to.
+   * @param kind The kind of reaction to make.
+   *
+   * @remarks
+   * Each secret key may react once to each post, without revealing which reaction is theirs. On members-only
+   * boards, reacting proves membership in the same way as posting, so each member may react once. On open boards,
+   * anyone can react again with a fresh secret key, so the counts of reactions are only a rough signal there and
+   * shouldn't be relied on where reactions must be one per person. This method can fail during local circuit
+   * execution if the slot is currently vacant, if its post hasn't been revealed, if the current user has already
+   * reacted to it, or if the board is members-only and the current user isn't a member.
+   */
+  async react(slot: bigint, kind: ReactionKind): Promise<void> {
+    this.logger?.info(`reactingToMessage: ${ReactionKind[kind]} (slot ${slot})`);
+
+    const txData = await this.deployedContract.callTx.react(slot, kind);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'react',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to tip the user that made the post currently in a slot of the bulletin board.
+   *
+   * @param slot The slot holding the post to tip.
+   * @param amount The amount of unshielded native tokens to tip.
+   *
+   * @remarks
+   * The tip is paid from the unshielded balance of the current wallet, straight to the unshielded address that the
+   * poster published when they opted in to tips with the post. Only unshielded tips are supported, since paying a
+   * shielded tip would need the poster to publish a shielded address, which links their posts to their wallet just
+   * the same. This method can fail during local circuit execution if the slot is currently vacant, if the post in
+   * it isn't live yet or doesn't accept tips, or if the amount is zero.
+   */
+  async tip(slot: bigint, amount: bigint): Promise<void> {
+    this.logger?.info(`tippingMessage: ${amount} (slot ${slot})`);
+
+    const txData = await this.deployedContract.callTx.tip(slot, amount);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'tip',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to take down the message currently posted to a slot of the bulletin board.
+   *
+   * @param slot The slot to take the message down from.
+   *
+   * @remarks
+   * The message may be taken down by its owner, or by the delegate that its owner added with {@link addDelegate}.
+   * If the board has a cooldown, the current user can't post to it again until the cooldown has passed.
+   * This method can fail during local circuit execution if the slot is currently vacant, or if neither the
+   * owner nor the delegate of the message posted to it is the one computed from the current private state.
    */
-  async takeDown(): Promise<void> {
-    this.logger?.info('takingDownMessage');
+  async takeDown(slot: bigint): Promise<void> {
+    this.logger?.info(`takingDownMessage: slot ${slot}`);
 
-    const txData = await this.deployedContract.callTx.takeDown();
+    const txData = await this.deployedContract.callTx.takeDown(slot, this.nextCooldownEnd());
 
     this.logger?.trace({
       transactionAdded: {
@@ -171,74 +523,1027 @@ export class BBoardAPI implements DeployedBBoardAPI {
   }
 
   /**
-   * Deploys a new bulletin board contract to the network.
+   * Attempts to cancel a scheduled post in a slot of the bulletin board before it goes live.
    *
-   * @param providers The bulletin board providers.
-   * @param logger An optional 'pino' logger to use for logging.
-   * @returns A `Promise` that resolves with a {@link BBoardAPI} instance that manages the newly deployed
-   * {@link DeployedBBoardContract}; or rejects with a deployment error.
+   * @param slot The slot holding the scheduled post.
+   *
+   * @remarks
+   * The post leaves the board in the same way as with {@link takeDown}, so its deposit is refunded, and the
+   * current user is held to the cooldown of the board. This method can fail during local circuit execution if
+   * the slot is currently vacant, if the post in it is already live, or if it isn't owned by the owner computed
+   * from the current private state.
    */
-  static async deploy(providers: BBoardProviders, logger?: Logger): Promise<BBoardAPI> {
-    logger?.info('deployContract');
+  async cancelPost(slot: bigint): Promise<void> {
+    this.logger?.info(`cancellingMessage: slot ${slot}`);
 
-    const deployedBBoardContract = await deployContract<typeof bboardContractInstance>(providers, {
-      privateStateId: bboardPrivateStateKey,
-      contract: bboardContractInstance,
-      initialPrivateState: await BBoardAPI.getPrivateState(providers),
+    const txData = await this.deployedContract.callTx.cancelPost(slot, this.nextCooldownEnd());
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'cancelPost',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
     });
+  }
 
-    logger?.trace({
-      contractDeployed: {
-        finalizedDeployTxData: deployedBBoardContract.deployTxData.public,
+  /**
+   * Attempts to replace the message currently posted to a slot of the bulletin board.
+   *
+   * @param slot The slot holding the message to edit.
+   * @param message The message to replace it with.
+   *
+   * @remarks
+   * Unlike taking the message down and posting it again, the post keeps its sequence and expiry, and the
+   * slot is never vacated for another user to claim. If the message being replaced was encrypted, then
+   * the replacement is encrypted with the board key held in the current private state. This method can fail
+   * during local circuit execution if the slot is currently vacant, or if the message posted to it isn't owned
+   * by the owner computed from the current private state.
+   */
+  async edit(slot: bigint, message: string): Promise<void> {
+    const ledgerState = await this.queryLedgerState();
+    const current = ledgerState.posts.member(slot) ? ledgerState.posts.lookup(slot).message : undefined;
+    const encrypted = current?.is_some === true && utils.isEncryptedMessage(current.value);
+
+    this.logger?.info(`editingMessage: ${encrypted ? '(encrypted)' : message} (slot ${slot})`);
+
+    const txData = await this.deployedContract.callTx.edit(slot, encrypted ? await this.encrypt(message) : message);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'edit',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
+  }
 
-    return new BBoardAPI(deployedBBoardContract, providers, logger);
+  /**
+   * Attempts to hand the message currently posted to a slot of the bulletin board over to another user.
+   *
+   * @param slot The slot holding the message to transfer.
+   * @param newOwner The owner commitment of the recipient for the sequence of the post, as computed by
+   * {@link ownerCommitment} with the recipient's private state.
+   *
+   * @remarks
+   * Once transferred, only the recipient may take down, edit or transfer the post, any delegate added by the
+   * former owner can no longer take it down, and the post no longer accepts tips, or adds to the reputation of the
+   * former owner's pseudonym. This method can fail during local circuit execution if the slot is currently vacant,
+   * or if the message posted to it isn't owned by the owner computed from the current private state.
+   */
+  async transferOwnership(slot: bigint, newOwner: Uint8Array): Promise<void> {
+    this.logger?.info(`transferringMessage: slot ${slot} to ${toHex(newOwner)}`);
+
+    if (newOwner.length !== 32) {
+      throw new Error(`Expected a 32 byte owner commitment, got ${newOwner.length} bytes`);
+    }
+
+    const txData = await this.deployedContract.callTx.transferOwnership(slot, newOwner);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'transferOwnership',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
   }
 
   /**
-   * Finds an already deployed bulletin board contract on the network, and joins it.
+   * Computes the owner commitment of the current user for a post with a given sequence.
    *
-   * @param providers The bulletin board providers.
-   * @param contractAddress The contract address of the deployed bulletin board contract to search for and join.
-   * @param logger An optional 'pino' logger to use for logging.
-   * @returns A `Promise` that resolves with a {@link BBoardAPI} instance that manages the joined
-   * {@link DeployedBBoardContract}; or rejects with an error.
+   * @param sequence The sequence of the post.
+   * @returns A `Promise` that resolves with the commitment that identifies the current user as the owner of
+   * the post; which can be shared with its current owner so that they can transfer the post with
+   * {@link transferOwnership}.
+   *
+   * @remarks
+   * Commitments are unlinkable between sequences, so sharing one doesn't reveal any other posts made by the
+   * current user.
    */
-  static async join(providers: BBoardProviders, contractAddress: ContractAddress, logger?: Logger): Promise<BBoardAPI> {
-    logger?.info({
-      joinContract: {
-        contractAddress,
+  async ownerCommitment(sequence: bigint): Promise<Uint8Array> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    return BBoard.pureCircuits.publicKey(privateState.secretKey, convertFieldToBytes(32, sequence, 'api/src/index.ts'));
+  }
+
+  /**
+   * Attempts to let another user take down the message currently posted to a slot of the bulletin board.
+   *
+   * @param slot The slot holding the message.
+   * @param delegate The delegate key of the other user for the sequence of the post, as computed by
+   * {@link delegateKey} with their private state.
+   *
+   * @remarks
+   * A post has at most one delegate, so adding another replaces the current one. The delegate may only take down
+   * the post; they can't edit or transfer it. This method can fail during local circuit execution if the slot is
+   * currently vacant, or if the message posted to it isn't owned by the owner computed from the current private
+   * state.
+   */
+  async addDelegate(slot: bigint, delegate: Uint8Array): Promise<void> {
+    this.logger?.info(`addingDelegate: slot ${slot} to ${toHex(delegate)}`);
+
+    if (delegate.length !== 32) {
+      throw new Error(`Expected a 32 byte delegate key, got ${delegate.length} bytes`);
+    }
+
+    const txData = await this.deployedContract.callTx.addDelegate(slot, delegate);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'addDelegate',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
+  }
 
-    const deployedBBoardContract = await findDeployedContract<BBoardContract>(providers, {
-      contractAddress,
-      contract: bboardContractInstance,
-      privateStateId: bboardPrivateStateKey,
-      initialPrivateState: await BBoardAPI.getPrivateState(providers),
+  /**
+   * Computes the delegate key of the current user for a post with a given sequence.
+   *
+   * @param sequence The sequence of the post.
+   * @returns A `Promise` that resolves with the key that the owner of the post adds with {@link addDelegate}
+   * to let the current user take it down.
+   *
+   * @remarks
+   * Like owner commitments, delegate keys are unlinkable between sequences, and can't be linked to the owner
+   * commitments of the current user either.
+   */
+  async delegateKey(sequence: bigint): Promise<Uint8Array> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    return BBoard.pureCircuits.delegateKey(
+      privateState.secretKey,
+      convertFieldToBytes(32, sequence, 'api/src/index.ts'),
+    );
+  }
+
+  /**
+   * Attempts to clear an expired message from a slot of the bulletin board.
+   *
+   * @param slot The slot to clear.
+   *
+   * @remarks
+   * Any user may clear an expired message. This method can fail during local circuit execution if the
+   * slot is currently vacant, or if the message posted to it hasn't yet expired.
+   */
+  async clearExpired(slot: bigint): Promise<void> {
+    this.logger?.info(`clearingExpiredMessage: slot ${slot}`);
+
+    const txData = await this.deployedContract.callTx.clearExpired(slot);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'clearExpired',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
     });
+  }
 
-    logger?.trace({
-      contractJoined: {
-        finalizedDeployTxData: deployedBBoardContract.deployTxData.public,
+  /**
+   * Attempts to take down the message currently posted to a slot of the bulletin board, as its moderator.
+   *
+   * @param slot The slot to take the message down from.
+   *
+   * @remarks
+   * This method can fail during local circuit execution if the slot is currently vacant, or if the
+   * moderator of the board isn't the one computed from the current private state.
+   */
+  async moderatorTakeDown(slot: bigint): Promise<void> {
+    this.logger?.info(`moderatorTakingDownMessage: slot ${slot}`);
+
+    const txData = await this.deployedContract.callTx.moderatorTakeDown(slot);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'moderatorTakeDown',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
+  }
 
-    return new BBoardAPI(deployedBBoardContract, providers, logger);
+  /**
+   * Attempts to propose that the message currently posted to a slot of the bulletin board is taken down by the
+   * moderator committee of the board, approving the proposal as the current user.
+   *
+   * @param slot The slot to take the message down from.
+   *
+   * @remarks
+   * The message is taken down once the number of committee members set at deployment have approved it, which
+   * may be straight away. Approvals only prove that the approving user is on the committee, so they can't be
+   * linked to any one moderator. This method can fail during local circuit execution if the slot is currently
+   * vacant, if a take down has already been proposed for the post, or if the current user isn't on the committee.
+   */
+  async proposeTakeDown(slot: bigint): Promise<void> {
+    this.logger?.info(`proposingTakeDown: slot ${slot}`);
+
+    const txData = await this.deployedContract.callTx.proposeTakeDown(slot);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'proposeTakeDown',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
   }
 
-  private static async getPrivateState(providers: BBoardProviders): Promise<BBoardPrivateState> {
-    const existingPrivateState = await providers.privateStateProvider.get(bboardPrivateStateKey);
-    return existingPrivateState ?? createBBoardPrivateState(utils.randomBytes(32));
+  /**
+   * Attempts to approve the take down proposed for the message currently posted to a slot of the bulletin board,
+   * as a member of its moderator committee.
+   *
+   * @param slot The slot to take the message down from.
+   *
+   * @remarks
+   * The message is taken down if this approval is the last one needed. This method can fail during local circuit
+   * execution if no take down has been proposed for the post, if the current user isn't on the committee, or if
+   * they have already approved it.
+   */
+  async approveTakeDown(slot: bigint): Promise<void> {
+    this.logger?.info(`approvingTakeDown: slot ${slot}`);
+
+    const txData = await this.deployedContract.callTx.approveTakeDown(slot);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'approveTakeDown',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
   }
-}
 
-/**
- * A namespace that represents the exports from the `'utils'` sub-package.
- *
+  /**
+   * Attempts to make a sealed bid for a vacant slot of the bulletin board, opening an auction for the slot if
+   * none is running.
+   *
+   * @param slot The slot to bid for.
+   * @param amount The amount of unshielded native tokens to bid.
+   *
+   * @remarks
+   * Only a hash of the amount, a random salt and a key derived from the current user's secret key is published,
+   * so neither the amount nor the bidder is visible to other users. The amount and salt are kept in the current
+   * private state, so that this user may reveal the bid with {@link revealBid} once bidding closes. An auction
+   * opened by this method accepts bids for the auction window of the board. This method can fail during local
+   * circuit execution if the board doesn't auction its slots, if the slot is currently occupied, or if bidding
+   * for the slot has closed.
+   */
+  async bid(slot: bigint, amount: bigint): Promise<void> {
+    this.logger?.info(`biddingForSlot: slot ${slot}`);
+
+    const salt = utils.randomBytes(32);
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const sealedBid = BBoard.pureCircuits.bidCommitment(
+      amount,
+      salt,
+      BBoard.pureCircuits.bidderKey(privateState.secretKey, salt),
+    );
+
+    // The salt is stored before the sealed bid is published, so that the bid can always be revealed, and is
+    // forgotten again if the sealed bid isn't published after all.
+    await this.providers.privateStateProvider.set(this.privateStateId, {
+      ...privateState,
+      pendingBids: { ...privateState.pendingBids, [toHex(sealedBid)]: { slot, amount, salt } },
+    });
+    this.privateStateChanged$.next();
+
+    const txData = await this.deployedContract.callTx
+      .bid(slot, sealedBid, this.nextBiddingEnd())
+      .catch(async (error: unknown) => {
+        await this.forgetPendingBid(toHex(sealedBid));
+        throw error;
+      });
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'bid',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to reveal the sealed bid that the current user made for a slot with {@link bid}.
+   *
+   * @param slot The slot that was bid for.
+   *
+   * @remarks
+   * The amount of the bid is paid from the unshielded balance of the current wallet, and the previous highest
+   * bid is refunded to the wallet that paid it. Once the auction closes, the highest bidder may post to the
+   * slot; their bid is held by the board until the post leaves it, and is then refunded along with any
+   * deposit. This method fails if the amount and salt behind the bid aren't held in the current private state.
+   * It can also fail during local circuit execution if bidding is still open, if the auction has closed, or
+   * if the bid doesn't beat the highest bid revealed so far.
+   */
+  async revealBid(slot: bigint): Promise<void> {
+    this.logger?.info(`revealingBid: slot ${slot}`);
+
+    const ledgerState = await this.queryLedgerState();
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const sealedBid = findPendingBid(ledgerState, privateState, slot);
+
+    if (sealedBid === undefined) {
+      throw new Error(`No sealed bid to reveal for slot ${slot}`);
+    }
+
+    const { amount, salt } = privateState.pendingBids[sealedBid];
+    const txData = await this.deployedContract.callTx.revealBid(slot, amount, salt, await this.refundAddress());
+
+    await this.forgetPendingBid(sealedBid);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'revealBid',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to settle the auction for a slot of the bulletin board that won't lead to a post, making the slot
+   * available to auction again.
+   *
+   * @param slot The slot being auctioned.
+   *
+   * @remarks
+   * Any user may settle an auction once it has closed without a winner, or once its winner has had a further
+   * auction window in which to post to the slot, in which case the winning bid is refunded. This method can fail
+   * during local circuit execution if the slot isn't being auctioned, or if the auction can't yet be settled.
+   */
+  async settleAuction(slot: bigint): Promise<void> {
+    this.logger?.info(`settlingAuction: slot ${slot}`);
+
+    const txData = await this.deployedContract.callTx.settleAuction(slot);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'settleAuction',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to add a member to the bulletin board, allowing them to post to it if it is members-only.
+   *
+   * @param member The member key of the new member, as computed by {@link memberKey} with their private state.
+   *
+   * @remarks
+   * This method can fail during local circuit execution if the deployer of the board isn't the one computed
+   * from the current private state.
+   */
+  async addMember(member: Uint8Array): Promise<void> {
+    this.logger?.info(`addingMember: ${toHex(member)}`);
+
+    if (member.length !== 32) {
+      throw new Error(`Expected a 32 byte member key, got ${member.length} bytes`);
+    }
+
+    const txData = await this.deployedContract.callTx.addMember(member);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'addMember',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to pause the bulletin board, freezing every post on it until it is unpaused.
+   *
+   * @remarks
+   * The moderator of the board may still take down posts while it is paused. This method can fail during local
+   * circuit execution if the board is already paused, or if the deployer of the board isn't the one computed
+   * from the current private state.
+   */
+  async pause(): Promise<void> {
+    this.logger?.info('pausingBoard');
+
+    const txData = await this.deployedContract.callTx.pause();
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'pause',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Attempts to unpause the bulletin board.
+   *
+   * @remarks
+   * This method can fail during local circuit execution if the board isn't paused, or if the deployer of the
+   * board isn't the one computed from the current private state.
+   */
+  async unpause(): Promise<void> {
+    this.logger?.info('unpausingBoard');
+
+    const txData = await this.deployedContract.callTx.unpause();
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'unpause',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Computes the member key of the current user.
+   *
+   * @returns A `Promise` that resolves with the key that the deployer of a board adds with {@link addMember}
+   * to allow the current user to post to it.
+   *
+   * @remarks
+   * The member key is only ever proven to be in the members tree of the board, so posts made by a member can't
+   * be linked to their member key.
+   */
+  async memberKey(): Promise<Uint8Array> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    return BBoard.pureCircuits.memberKey(privateState.secretKey);
+  }
+
+  /**
+   * Computes the moderator key of the current user.
+   *
+   * @returns A `Promise` that resolves with the key that is given in the `committee` option of
+   * {@link BBoardAPI.deploy} to put the current user on the moderator committee of a new board.
+   *
+   * @remarks
+   * Like member keys, the moderator key is only ever proven to be in the committee tree of the board, so
+   * approvals made by a moderator can't be linked to their moderator key.
+   */
+  async moderatorKey(): Promise<Uint8Array> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    return BBoard.pureCircuits.moderatorKey(privateState.secretKey);
+  }
+
+  /**
+   * Determines whether a given message was posted to the bulletin board with a given sequence.
+   *
+   * @param sequence The sequence of the post.
+   * @param message The message to check.
+   * @returns A `Promise` that resolves with `true` if the message was posted (or edited into the post) with
+   * the given sequence; even if the post has since been taken down, cleared, or edited again.
+   *
+   * @remarks
+   * The ledger only keeps a persistent hash of each message and its sequence, so the text itself isn't
+   * recoverable from the history; it can only be checked against.
+   */
+  async wasPosted(sequence: bigint, message: string): Promise<boolean> {
+    const entry = BBoard.pureCircuits.historyEntry(convertFieldToBytes(32, sequence, 'api/src/index.ts'), message);
+    return (await this.queryLedgerState()).history.findPathForLeaf(entry) !== undefined;
+  }
+
+  /**
+   * Attempts to prove that the current user wrote the post made to the bulletin board with a given sequence.
+   *
+   * @param sequence The sequence of the post.
+   * @param challenge The challenge to make the proof for, as chosen by the party that asked for it.
+   * @returns A `Promise` that resolves with the proof, which can be handed to a third party to check with
+   * {@link verifyAuthorship}.
+   *
+   * @remarks
+   * The proof is made locally and no transaction is submitted. Authorship is proven with the author key that the
+   * post was made with, so it may be proven long after the post has left the board, but not by users that the post
+   * was transferred to. The author key of each post is different, so the proof doesn't link the post to any other
+   * post made by the current user. This method fails if no post was made with the sequence, or if it wasn't made
+   * with the author key derived from the current private state.
+   */
+  async proveAuthorship(sequence: bigint, challenge: Uint8Array): Promise<BBoardAuthorshipProof> {
+    this.logger?.info(`provingAuthorship: sequence ${sequence}`);
+
+    if (challenge.length !== 32) {
+      throw new Error(`Expected a 32 byte challenge, got ${challenge.length} bytes`);
+    }
+
+    const { authors } = await this.queryLedgerState();
+    if (!authors.member(sequence)) {
+      throw new Error(`No post was made with sequence ${sequence}`);
+    }
+
+    const { secretKey } = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    if (toHex(authorKey(secretKey, sequence)) !== toHex(authors.lookup(sequence))) {
+      throw new Error(`The post with sequence ${sequence} wasn't written by the current user`);
+    }
+
+    return {
+      contractAddress: this.deployedContractAddress,
+      sequence,
+      challenge,
+      ...signAuthorship(secretKey, encodeContractAddress(this.deployedContractAddress), sequence, challenge),
+    };
+  }
+
+  /**
+   * Determines whether a given authorship proof was made for the bulletin board.
+   *
+   * @param proof The proof to check, as made with {@link proveAuthorship}.
+   * @returns A `Promise` that resolves with `true` if the proof was made by the author of the post on the board.
+   *
+   * @remarks
+   * Any user may verify a proof, and the current private state plays no part in it. See {@link verifyAuthorship}
+   * at the top level of this package to verify a proof against a ledger state that has already been fetched.
+   */
+  async verifyAuthorship(proof: BBoardAuthorshipProof): Promise<boolean> {
+    return (
+      proof.contractAddress === this.deployedContractAddress && verifyAuthorship(await this.queryLedgerState(), proof)
+    );
+  }
+
+  /**
+   * Sets the board key with which the current user encrypts and decrypts messages.
+   *
+   * @param boardKey The board key, as generated by {@link utils.generateBoardKey} and shared out of band
+   * with the other readers of encrypted messages; or `undefined` to forget the current board key.
+   *
+   * @remarks
+   * The board key is kept in the private state of this bulletin board, so each board that the current user
+   * interacts with may have a board key of its own.
+   */
+  async setBoardKey(boardKey: Uint8Array | undefined): Promise<void> {
+    this.logger?.info(`settingBoardKey: ${boardKey === undefined ? 'none' : 'imported'}`);
+
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    await this.providers.privateStateProvider.set(this.privateStateId, { ...privateState, boardKey });
+    this.privateStateChanged$.next();
+  }
+
+  /** @internal */
+  private async queryLedgerState(): Promise<BBoard.Ledger> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+
+    if (!contractState) {
+      throw new Error(`No contract state found at ${this.deployedContractAddress}`);
+    }
+
+    return BBoard.ledger(contractState.data);
+  }
+
+  /**
+   * Computes the expiry of a post made now, giving it the longest lifetime that the board allows.
+   *
+   * @internal
+   */
+  private nextExpiry(): bigint {
+    const { postLifetime } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+    return BigInt(Math.floor(Date.now() / 1_000)) - CLOCK_SKEW_ALLOWANCE + postLifetime;
+  }
+
+  /**
+   * Computes the expiry of a post that goes live at a given time, giving it the longest lifetime that the board
+   * allows from then.
+   *
+   * @internal
+   */
+  private scheduledExpiry(visibleFrom: bigint): bigint {
+    const { postLifetime } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+    return visibleFrom + postLifetime;
+  }
+
+  /**
+   * Computes the time at which the cooldown of the current user ends, if they take down a post now. The clock
+   * skew allowance is added rather than subtracted, since the contract requires a cooldown of at least the
+   * board's cooldown period from the block time.
+   *
+   * @internal
+   */
+  private nextCooldownEnd(): bigint {
+    const { cooldown } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+    return BigInt(Math.floor(Date.now() / 1_000)) + CLOCK_SKEW_ALLOWANCE + cooldown;
+  }
+
+  /**
+   * Fails with an error that tells the current user how long to wait before posting, if they are still
+   * cooling down from taking down a post.
+   *
+   * @internal
+   */
+  private async assertNotCoolingDown(): Promise<void> {
+    const { cooldown } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+
+    if (cooldown === 0n) {
+      return;
+    }
+
+    const ledgerState = await this.queryLedgerState();
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const cooldownEndsAt = cooldownEnd(ledgerState, privateState);
+    const remaining = cooldownEndsAt === undefined ? 0 : utils.remainingLifetime(cooldownEndsAt);
+
+    if (remaining > 0) {
+      throw new Error(
+        `You recently took down a post, so you can't post again for another ${utils.formatDuration(remaining)}`,
+      );
+    }
+  }
+
+  /**
+   * Fails with an error if the board is token-gated, and the wallet of the current user holds none of its token.
+   *
+   * @internal
+   */
+  private async assertHoldsGateToken(): Promise<void> {
+    const { gateToken } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+
+    if (isUngated(gateToken)) {
+      return;
+    }
+
+    const balance = await this.providers.walletProvider.getShieldedBalance(toHex(gateToken));
+
+    if (balance === 0n) {
+      throw new Error(`Posting requires a coin of the shielded token ${toHex(gateToken)}, but your wallet holds none`);
+    }
+  }
+
+  /**
+   * Computes the time at which bidding closes for an auction opened now, giving it the full auction window
+   * of the board.
+   *
+   * @internal
+   */
+  private nextBiddingEnd(): bigint {
+    const { auctionWindow } = BBoard.ledger(this.deployedContract.deployTxData.public.initialContractState.data);
+    return BigInt(Math.floor(Date.now() / 1_000)) - CLOCK_SKEW_ALLOWANCE + auctionWindow;
+  }
+
+  /**
+   * Encrypts a message with the board key held in the current private state.
+   *
+   * @internal
+   */
+  private async encrypt(message: string): Promise<string> {
+    const { boardKey } = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+
+    if (boardKey === undefined) {
+      throw new Error('No board key to encrypt the message with');
+    }
+
+    return utils.encryptMessage(boardKey, message);
+  }
+
+  /**
+   * Removes the message and salt behind a commitment from the current private state. The private state is read
+   * again first, so that changes made to it while a transaction was in flight aren't lost.
+   *
+   * @internal
+   */
+  private async forgetPendingReveal(commitment: string): Promise<void> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const pendingReveals = { ...privateState.pendingReveals };
+    delete pendingReveals[commitment];
+    await this.providers.privateStateProvider.set(this.privateStateId, { ...privateState, pendingReveals });
+    this.privateStateChanged$.next();
+  }
+
+  /**
+   * Removes the amount and salt behind a sealed bid from the current private state. The private state is read
+   * again first, so that changes made to it while a transaction was in flight aren't lost.
+   *
+   * @internal
+   */
+  private async forgetPendingBid(sealedBid: string): Promise<void> {
+    const privateState = await BBoardAPI.getPrivateState(this.providers, this.deployedContractAddress);
+    const pendingBids = { ...privateState.pendingBids };
+    delete pendingBids[sealedBid];
+    await this.providers.privateStateProvider.set(this.privateStateId, { ...privateState, pendingBids });
+    this.privateStateChanged$.next();
+  }
+
+  /**
+   * Gets the unshielded address of the current user, to which the deposit or winning bid of a post is refunded;
+   * or the zero address if the board holds neither, so that posts aren't linked to the current wallet for nothing.
+   *
+   * @internal
+   */
+  private async refundAddress(): Promise<{ bytes: Uint8Array }> {
+    const { deposit, auctionWindow } = BBoard.ledger(
+      this.deployedContract.deployTxData.public.initialContractState.data,
+    );
+
+    if (deposit === 0n && auctionWindow === 0n) {
+      return { bytes: new Uint8Array(32) };
+    }
+
+    return { bytes: fromHex(await this.providers.walletProvider.getUnshieldedAddress()) };
+  }
+
+  /**
+   * Deploys a new bulletin board contract to the network.
+   *
+   * @remarks
+   * The user deploying the board becomes its creator and moderator, and its first member if the board is
+   * members-only. A fresh secret key is generated for the board, and kept in a private state of its own.
+   *
+   * @param providers The bulletin board providers.
+   * @param options The options used to configure the new bulletin board.
+   * @param logger An optional 'pino' logger to use for logging.
+   * @returns A `Promise` that resolves with a {@link BBoardAPI} instance that manages the newly deployed
+   * {@link DeployedBBoardContract}; or rejects with a deployment error, or if the moderator committee given
+   * in `options` is invalid.
+   */
+  static async deploy(
+    providers: BBoardProviders,
+    options: BBoardDeployOptions = {},
+    logger?: Logger,
+  ): Promise<BBoardAPI> {
+    logger?.info({
+      deployContract: {
+        options,
+      },
+    });
+
+    const committee = options.committee ?? [];
+    const takeDownThreshold = options.takeDownThreshold ?? BigInt(committee.length);
+    if (committee.length > MAX_COMMITTEE_SIZE || committee.some((moderator) => moderator.length !== 32)) {
+      throw new Error(`Expected at most ${MAX_COMMITTEE_SIZE} moderator keys of 32 bytes each`);
+    }
+    if (takeDownThreshold > BigInt(committee.length) || (committee.length > 0 && takeDownThreshold === 0n)) {
+      throw new Error(`Expected a take down threshold between 1 and ${committee.length}, got ${takeDownThreshold}`);
+    }
+
+    // The private state of a board is keyed by its address, which isn't known until it has been deployed; so the
+    // board is deployed with a provisional private state identifier, and its private state is moved once it is.
+    const provisionalPrivateStateId = bboardPrivateStateId(`deploying-${toHex(utils.randomBytes(16))}`);
+    const initialPrivateState = createBBoardPrivateState(utils.randomBytes(32));
+    const deployedBBoardContract = await deployContract<typeof bboardContractInstance>(providers, {
+      privateStateId: provisionalPrivateStateId,
+      contract: bboardContractInstance,
+      initialPrivateState,
+      args: [
+        options.postLifetime ?? DEFAULT_POST_LIFETIME,
+        options.deposit ?? 0n,
+        options.membersOnly ?? false,
+        options.auctionWindow ?? 0n,
+        options.title ?? '',
+        options.description ?? '',
+        options.cooldown ?? 0n,
+        Array.from({ length: MAX_COMMITTEE_SIZE }, (_, i) => committee[i] ?? new Uint8Array(32)),
+        takeDownThreshold,
+        options.gateToken === undefined ? new Uint8Array(32) : fromHex(options.gateToken),
+      ],
+    });
+
+    logger?.trace({
+      contractDeployed: {
+        finalizedDeployTxData: deployedBBoardContract.deployTxData.public,
+      },
+    });
+
+    const { contractAddress } = deployedBBoardContract.deployTxData.public;
+    await providers.privateStateProvider.set(
+      bboardPrivateStateId(contractAddress),
+      (await providers.privateStateProvider.get(provisionalPrivateStateId)) ?? initialPrivateState,
+    );
+    await providers.privateStateProvider.remove(provisionalPrivateStateId);
+
+    // The circuits of the deployed contract are bound to the provisional identifier, so the contract is found again
+    // to bind them to the identifier that the private state was moved to.
+    const foundBBoardContract = await findDeployedContract<BBoardContract>(providers, {
+      contractAddress,
+      contract: bboardContractInstance,
+      privateStateId: bboardPrivateStateId(contractAddress),
+    });
+
+    return new BBoardAPI(foundBBoardContract, providers, logger);
+  }
+
+  /**
+   * Finds an already deployed bulletin board contract on the network, and joins it.
+   *
+   * @param providers The bulletin board providers.
+   * @param contractAddress The contract address of the deployed bulletin board contract to search for and join.
+   * @param logger An optional 'pino' logger to use for logging.
+   * @returns A `Promise` that resolves with a {@link BBoardAPI} instance that manages the joined
+   * {@link DeployedBBoardContract}; or rejects with an error.
+   *
+   * @remarks
+   * The private state already kept for the board is used if there is one. Otherwise, the private state shared
+   * by every board before private state was kept per board is copied for it if the shared secret key has been
+   * used with the board; and a fresh secret key is generated for it if not.
+   */
+  static async join(providers: BBoardProviders, contractAddress: ContractAddress, logger?: Logger): Promise<BBoardAPI> {
+    logger?.info({
+      joinContract: {
+        contractAddress,
+      },
+    });
+
+    const deployedBBoardContract = await findDeployedContract<BBoardContract>(providers, {
+      contractAddress,
+      contract: bboardContractInstance,
+      privateStateId: bboardPrivateStateId(contractAddress),
+      initialPrivateState: await BBoardAPI.getPrivateState(providers, contractAddress),
+    });
+
+    logger?.trace({
+      contractJoined: {
+        finalizedDeployTxData: deployedBBoardContract.deployTxData.public,
+      },
+    });
+
+    return new BBoardAPI(deployedBBoardContract, providers, logger);
+  }
+
+  /**
+   * Gets the private state kept for the board at a given address, brought up to date with
+   * `migrateBBoardPrivateState` if it was stored with an earlier version of `BBoardPrivateState`. Migrated private
+   * states are stored again, so that circuits, which read the private state straight from the provider, see them
+   * too.
+   *
+   * @internal
+   */
+  private static async getPrivateState(
+    providers: BBoardProviders,
+    contractAddress: ContractAddress,
+  ): Promise<BBoardPrivateState> {
+    const existingPrivateState = await loadBBoardPrivateState(
+      providers.privateStateProvider,
+      bboardPrivateStateId(contractAddress),
+    );
+
+    return (
+      existingPrivateState ??
+      (await BBoardAPI.findSharedPrivateState(providers, contractAddress)) ??
+      createBBoardPrivateState(utils.randomBytes(32))
+    );
+  }
+
+  /**
+   * Finds the private state that was shared by every board before private state was kept per board, if its
+   * secret key has been used with the board at a given address.
+   *
+   * @internal
+   */
+  private static async findSharedPrivateState(
+    providers: BBoardProviders,
+    contractAddress: ContractAddress,
+  ): Promise<BBoardPrivateState | undefined> {
+    const storedPrivateState = await providers.privateStateProvider.get(bboardPrivateStateKey);
+
+    if (storedPrivateState === null) {
+      return undefined;
+    }
+
+    // The shared private state is only ever read, so it is migrated for each board that it is copied to.
+    const sharedPrivateState = migrateBBoardPrivateState(storedPrivateState);
+    const contractState = await providers.publicDataProvider.queryContractState(contractAddress);
+    return contractState && hasUsedSecretKey(BBoard.ledger(contractState.data), sharedPrivateState, contractAddress)
+      ? sharedPrivateState
+      : undefined;
+  }
+}
+
+/**
+ * Decrypts an encrypted message with the board key held in the given private state.
+ *
+ * @internal
+ */
+const decryptWithBoardKey = async (privateState: BBoardPrivateState, message: string): Promise<string | undefined> =>
+  privateState.boardKey === undefined ? undefined : await utils.decryptMessage(privateState.boardKey, message);
+
+/**
+ * Determines whether a gate token read from the ledger is the all-zero token type that leaves a board ungated.
+ *
+ * @internal
+ */
+const isUngated = (gateToken: Uint8Array): boolean => gateToken.every((byte) => byte === 0);
+
+/**
+ * Finds the time at which the current user may post again after taking down a post.
+ *
+ * @returns The end of the cooldown recorded for the current user; or `undefined` if none is recorded.
+ *
+ * @internal
+ */
+const cooldownEnd = (ledgerState: BBoard.Ledger, privateState: BBoardPrivateState): Date | undefined => {
+  const key = BBoard.pureCircuits.rateLimitKey(privateState.secretKey);
+  return ledgerState.cooldowns.member(key) ? new Date(Number(ledgerState.cooldowns.lookup(key)) * 1_000) : undefined;
+};
+
+/**
+ * Finds the sealed bid for a given slot that the current user made, and has yet to reveal.
+ *
+ * @returns The hex-encoded sealed bid, which keys its amount and salt in the `pendingBids` of the private state;
+ * or `undefined` if the current user has no sealed bid for the slot.
+ *
+ * @internal
+ */
+const findPendingBid = (
+  ledgerState: BBoard.Ledger,
+  privateState: BBoardPrivateState,
+  slot: bigint,
+): string | undefined =>
+  ledgerState.sealedBids.member(slot)
+    ? Array.from(ledgerState.sealedBids.lookup(slot), (sealedBid) => toHex(sealedBid)).find(
+        (sealedBid) => privateState.pendingBids[sealedBid]?.slot === slot,
+      )
+    : undefined;
+
+/**
+ * Counts the reactions of a given kind made to the post with a given sequence.
+ *
+ * @internal
+ */
+const countReactions = (ledgerState: BBoard.Ledger, sequence: bigint, kind: ReactionKind): bigint =>
+  ledgerState.reactions.member(sequence) && ledgerState.reactions.lookup(sequence).member(kind)
+    ? ledgerState.reactions.lookup(sequence).lookup(kind)
+    : 0n;
+
+/**
+ * Finds the reputation of a given pseudonym.
+ *
+ * @internal
+ */
+const reputationOf = (ledgerState: BBoard.Ledger, pseudonym: Uint8Array): bigint =>
+  ledgerState.reputation.member(pseudonym) ? ledgerState.reputation.lookup(pseudonym) : 0n;
+
+/**
+ * Determines whether the secret key of a given private state has been used with a bulletin board, because it
+ * identifies the deployer, a member, a moderator, an author, owner or delegate of a post, a bidder, or a user with
+ * a cooldown or reputation on the board.
+ *
+ * @internal
+ */
+const hasUsedSecretKey = (
+  ledgerState: BBoard.Ledger,
+  privateState: BBoardPrivateState,
+  contractAddress: ContractAddress,
+): boolean => {
+  const { secretKey } = privateState;
+  const sequenceBytes = (sequence: bigint) => convertFieldToBytes(32, sequence, 'api/src/index.ts');
+  const ownerKey = (sequence: bigint) => toHex(BBoard.pureCircuits.publicKey(secretKey, sequenceBytes(sequence)));
+
+  return (
+    toHex(ledgerState.deployer) === toHex(BBoard.pureCircuits.deployerKey(secretKey)) ||
+    ledgerState.members.findPathForLeaf(BBoard.pureCircuits.memberKey(secretKey)) !== undefined ||
+    ledgerState.committee.findPathForLeaf(BBoard.pureCircuits.moderatorKey(secretKey)) !== undefined ||
+    ledgerState.cooldowns.member(BBoard.pureCircuits.rateLimitKey(secretKey)) ||
+    ledgerState.reputation.member(BBoard.pureCircuits.pseudonym(secretKey, encodeContractAddress(contractAddress))) ||
+    Array.from(ledgerState.authors).some(
+      ([sequence, author]) => toHex(author) === toHex(authorKey(secretKey, sequence)),
+    ) ||
+    Array.from(ledgerState.posts).some(([, post]) => toHex(post.owner) === ownerKey(post.sequence)) ||
+    Array.from(ledgerState.delegates).some(
+      ([sequence, delegate]) =>
+        toHex(delegate) === toHex(BBoard.pureCircuits.delegateKey(secretKey, sequenceBytes(sequence))),
+    ) ||
+    Array.from(ledgerState.sealedBids).some(
+      ([slot]) => findPendingBid(ledgerState, privateState, slot) !== undefined,
+    ) ||
+    Array.from(ledgerState.auctions).some(
+      ([, auction]) =>
+        auction.highestBid !== 0n &&
+        toHex(auction.winner) === toHex(BBoard.pureCircuits.bidderKey(secretKey, auction.winnerSalt)),
+    )
+  );
+};
+
+/**
+ * Determines whether a given authorship proof was made by the author of a post in the ledger state of a bulletin
+ * board.
+ *
+ * @param ledgerState The ledger state of the bulletin board that the proof was made for.
+ * @param proof The proof to check.
+ * @returns `true` if the verifying key of the proof matches the author key recorded for the post with its sequence,
+ * and its signature was made with that key for its board, sequence and challenge.
+ *
+ * @remarks
+ * Author keys are never removed from the ledger, so a proof can be checked against any ledger state fetched after
+ * the post was made, without a connection to the network or any private state. Callers must check that the
+ * challenge of `proof` is the one they chose.
+ */
+export const verifyAuthorship = (ledgerState: BBoard.Ledger, proof: BBoardAuthorshipProof): boolean =>
+  ledgerState.authors.member(proof.sequence) &&
+  isAuthorshipSignature(
+    ledgerState.authors.lookup(proof.sequence),
+    encodeContractAddress(proof.contractAddress),
+    proof.sequence,
+    proof.challenge,
+    proof,
+  );
+
+/**
+ * A namespace that represents the exports from the `'utils'` sub-package.
+ *
  * @public
  */
 export * as utils from './utils/index.js';
 
+/**
+ * Brings a private state stored with an earlier version of `BBoardPrivateState` up to date.
+ *
+ * @public
+ */
+export { migrateBBoardPrivateState } from '../../contract/src/index';
+
 export * from './common-types.js';
@@ -30,3 +30,128 @@ export const randomBytes = (length: number): Uint8Array => {
   crypto.getRandomValues(bytes);
   return bytes;
 };
+
+/**
+ * The prefix that marks a message as having been encrypted with {@link encryptMessage}.
+ */
+export const ENCRYPTED_MESSAGE_PREFIX = 'bboard:encrypted:';
+
+/** @internal */
+const BOARD_KEY_IV_LENGTH = 12;
+
+/** @internal */
+const importBoardKey = (boardKey: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', new Uint8Array(boardKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+/**
+ * Generates a new symmetric key with which the messages of a bulletin board can be encrypted.
+ *
+ * @returns A `Uint8Array` holding a random 256-bit AES-GCM key.
+ */
+export const generateBoardKey = (): Uint8Array => randomBytes(32);
+
+/**
+ * Determines whether a message posted to a bulletin board was encrypted with {@link encryptMessage}.
+ *
+ * @param message The message as it appears on the ledger.
+ * @returns `true` if the message carries the {@link ENCRYPTED_MESSAGE_PREFIX}.
+ */
+export const isEncryptedMessage = (message: string): boolean => message.startsWith(ENCRYPTED_MESSAGE_PREFIX);
+
+/**
+ * Encrypts a message with a board key, so that it can only be read by users who hold the same key.
+ *
+ * @param boardKey The board key, as generated by {@link generateBoardKey}.
+ * @param message The message to encrypt.
+ * @returns A `Promise` that resolves with the {@link ENCRYPTED_MESSAGE_PREFIX}, followed by the base64 encoded
+ * initialization vector and ciphertext.
+ */
+export const encryptMessage = async (boardKey: Uint8Array, message: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(BOARD_KEY_IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importBoardKey(boardKey),
+    new TextEncoder().encode(message),
+  );
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+  return ENCRYPTED_MESSAGE_PREFIX + btoa(String.fromCharCode(...payload));
+};
+
+/**
+ * Decrypts a message that was encrypted with {@link encryptMessage}.
+ *
+ * @param boardKey The board key that the message is expected to have been encrypted with.
+ * @param message The encrypted message, as it appears on the ledger.
+ * @returns A `Promise` that resolves with the decrypted message; or `undefined` if the message isn't encrypted,
+ * or can't be decrypted with the given key.
+ */
+export const decryptMessage = async (boardKey: Uint8Array, message: string): Promise<string | undefined> => {
+  if (!isEncryptedMessage(message)) {
+    return undefined;
+  }
+  try {
+    const payload = Uint8Array.from(atob(message.slice(ENCRYPTED_MESSAGE_PREFIX.length)), (c) => c.charCodeAt(0));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: payload.slice(0, BOARD_KEY_IV_LENGTH) },
+      await importBoardKey(boardKey),
+      payload.slice(BOARD_KEY_IV_LENGTH),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Finds the lowest numbered slot that is not occupied by any of the given posts.
+ *
+ * @param posts The posts currently on the board.
+ * @returns The first vacant slot.
+ */
+export const firstVacantSlot = (posts: ReadonlyArray<{ readonly slot: bigint }>): bigint => {
+  const occupied = new Set(posts.map((post) => post.slot));
+  let slot = 0n;
+  while (occupied.has(slot)) {
+    slot++;
+  }
+  return slot;
+};
+
+/**
+ * Computes how much longer a post will remain on the board before it can be cleared.
+ *
+ * @param expiresAt The time at which the post expires.
+ * @param now The current time.
+ * @returns The remaining lifetime in milliseconds; or `0` if the post has already expired.
+ */
+export const remainingLifetime = (expiresAt: Date, now: Date = new Date()): number =>
+  Math.max(0, expiresAt.getTime() - now.getTime());
+
+/**
+ * Formats a duration as a short human readable string, such as `'1h 5m'` or `'42s'`.
+ *
+ * @param milliseconds The duration to format.
+ * @returns The formatted duration, using at most the two most significant units.
+ */
+export const formatDuration = (milliseconds: number): string => {
+  const units: Array<[string, number]> = [
+    ['d', 86_400],
+    ['h', 3_600],
+    ['m', 60],
+    ['s', 1],
+  ];
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1_000));
+  const largest = units.findIndex(([, seconds]) => totalSeconds >= seconds);
+  if (largest < 0) {
+    return '0s';
+  }
+  const [largestUnit, largestSeconds] = units[largest];
+  const parts = [`${Math.floor(totalSeconds / largestSeconds)}${largestUnit}`];
+  if (largest + 1 < units.length) {
+    const [nextUnit, nextSeconds] = units[largest + 1];
+    parts.push(`${Math.floor((totalSeconds % largestSeconds) / nextSeconds)}${nextUnit}`);
+  }
+  return parts.join(' ');
+};
@@ -22,18 +22,24 @@
  */
 
 import { createInterface, type Interface } from 'node:readline/promises';
+import { readFile, writeFile } from 'node:fs/promises';
 import { stdin as input, stdout as output } from 'node:process';
 import { WebSocket } from 'ws';
 import {
   BBoardAPI,
+  type BBoardCircuitKeys,
   type BBoardDerivedState,
-  bboardPrivateStateKey,
+  bboardPrivateStateId,
   type BBoardProviders,
   type DeployedBBoardContract,
+  DEFAULT_POST_LIFETIME,
+  MAX_COMMITTEE_SIZE,
+  migrateBBoardPrivateState,
   type PrivateStateId,
+  ReactionKind,
 } from '../../api/src/index';
 import { type WalletFacade } from '@midnight-ntwrk/wallet-sdk-facade';
-import { ledger, type Ledger, State } from '../../contract/src/managed/bboard/contract/index.js';
+import { ledger, type Ledger } from '../../contract/src/managed/bboard/contract/index.js';
 import { NodeZkConfigProvider } from '@midnight-ntwrk/midnight-js-node-zk-config-provider';
 import { indexerPublicDataProvider } from '@midnight-ntwrk/midnight-js-indexer-public-data-provider';
 import { httpClientProofProvider } from '@midnight-ntwrk/midnight-js-http-client-proof-provider';
@@ -41,14 +47,14 @@ import { type Logger } from 'pino';
 import { type Config, StandaloneConfig } from './config.js';
 import { levelPrivateStateProvider } from '@midnight-ntwrk/midnight-js-level-private-state-provider';
 import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
-import { assertIsContractAddress, toHex } from '@midnight-ntwrk/midnight-js-utils';
+import { assertIsContractAddress, fromHex, toHex } from '@midnight-ntwrk/midnight-js-utils';
 import { TestEnvironment } from '@midnight-ntwrk/testkit-js';
 import { MidnightWalletProvider } from './midnight-wallet-provider';
-import { randomBytes } from '../../api/src/utils';
+import { firstVacantSlot, formatDuration, generateBoardKey, randomBytes, remainingLifetime } from '../../api/src/utils';
 import { unshieldedToken } from '@midnight-ntwrk/ledger-v6';
-import { syncWallet, waitForUnshieldedFunds } from './wallet-utils';
+import { getUnshieldedBalance, syncWallet, waitForUnshieldedFunds } from './wallet-utils';
 import { generateDust } from './generate-dust';
-import { BBoardPrivateState } from '@midnight-ntwrk/bboard-contract';
+import { type BBoardPrivateState } from '@midnight-ntwrk/bboard-contract';
 
 // @ts-expect-error: It's needed to enable WebSocket usage through apollo
 globalThis.WebSocket = WebSocket;
@@ -74,6 +80,121 @@ export const getBBoardLedgerState = async (
 //   .queryContractState(contractAddress)
 //   .then((contractState) => (contractState != null ? ledger(contractState.data) : null));
 
+/* **********************************************************************
+ * askNumber: prompts the user for a non-negative whole number, such as
+ * the board slot to act on. An empty answer selects the default value,
+ * if one is given.
+ */
+
+const askNumber = async (rli: Interface, logger: Logger, question: string, defaultValue?: bigint): Promise<bigint> => {
+  while (true) {
+    const answer = (
+      await rli.question(defaultValue === undefined ? `${question} ` : `${question} [${defaultValue}] `)
+    ).trim();
+    if (answer === '' && defaultValue !== undefined) {
+      return defaultValue;
+    }
+    if (/^\d+$/.test(answer)) {
+      return BigInt(answer);
+    }
+    logger.error(`Invalid number: ${answer}`);
+  }
+};
+
+/* **********************************************************************
+ * askYesNo: prompts the user for a yes or no answer. An empty answer
+ * selects the default value.
+ */
+
+const askYesNo = async (rli: Interface, logger: Logger, question: string, defaultValue: boolean): Promise<boolean> => {
+  while (true) {
+    const answer = (await rli.question(`${question} [${defaultValue ? 'Y/n' : 'y/N'}] `)).trim().toLowerCase();
+    if (answer === '') {
+      return defaultValue;
+    }
+    if (answer === 'y' || answer === 'yes') {
+      return true;
+    }
+    if (answer === 'n' || answer === 'no') {
+      return false;
+    }
+    logger.error(`Invalid answer: ${answer}`);
+  }
+};
+
+/* **********************************************************************
+ * askCommittee: prompts the deployer for the moderator keys of a
+ * moderator committee, and for how many of its members must approve a
+ * take down. An empty answer deploys the board without a committee.
+ */
+
+const askCommittee = async (
+  rli: Interface,
+  logger: Logger,
+): Promise<{ committee: Uint8Array[]; takeDownThreshold?: bigint }> => {
+  while (true) {
+    const answer = (
+      await rli.question('What are the moderator keys of the moderator committee (in hex, comma separated)? [none] ')
+    ).trim();
+    const keys = answer === '' ? [] : answer.split(',').map((key) => key.trim());
+    if (keys.length > MAX_COMMITTEE_SIZE || keys.some((key) => !/^[0-9a-fA-F]{64}$/.test(key))) {
+      logger.error(`Expected at most ${MAX_COMMITTEE_SIZE} moderator keys of 64 hex digits each`);
+      continue;
+    }
+    if (keys.length === 0) {
+      return { committee: [] };
+    }
+    return {
+      committee: keys.map((key) => fromHex(key)),
+      takeDownThreshold: await askNumber(
+        rli,
+        logger,
+        'How many of the committee must approve a take down?',
+        BigInt(keys.length),
+      ),
+    };
+  }
+};
+
+/* **********************************************************************
+ * askGateToken: prompts the deployer for the raw type of a shielded token
+ * that users must hold to post. An empty answer deploys the board without
+ * a gate token.
+ */
+
+const askGateToken = async (rli: Interface, logger: Logger): Promise<string | undefined> => {
+  while (true) {
+    const answer = (
+      await rli.question('Which shielded token must users hold to post (raw token type in hex)? [none] ')
+    ).trim();
+    if (answer === '') {
+      return undefined;
+    }
+    if (/^[0-9a-fA-F]{64}$/.test(answer)) {
+      return answer;
+    }
+    logger.error(`Invalid token type: ${answer}`);
+  }
+};
+
+/* **********************************************************************
+ * askReactionKind: prompts the user for the kind of reaction to make,
+ * repeating the question until one of the known kinds is given.
+ */
+
+const askReactionKind = async (rli: Interface, logger: Logger): Promise<ReactionKind> => {
+  while (true) {
+    const answer = (await rli.question(`Which reaction do you want to make? [seen/plusOne] `)).trim();
+    if (answer === 'seen') {
+      return ReactionKind.seen;
+    }
+    if (answer === 'plusOne' || answer === '+1') {
+      return ReactionKind.plusOne;
+    }
+    logger.error(`Invalid reaction: ${answer}`);
+  }
+};
+
 /* **********************************************************************
  * deployOrJoin: returns a contract, by prompting the user about
  * whether to deploy a new one or join an existing one and then
@@ -94,7 +215,36 @@ const deployOrJoin = async (providers: BBoardProviders, rli: Interface, logger:
     const choice = await rli.question(DEPLOY_OR_JOIN_QUESTION);
     switch (choice) {
       case '1':
-        api = await BBoardAPI.deploy(providers, logger);
+        api = await BBoardAPI.deploy(
+          providers,
+          {
+            title: await rli.question('What is the title of the board? '),
+            description: await rli.question('What is the board for? '),
+            postLifetime: await askNumber(
+              rli,
+              logger,
+              'How many seconds should each post stay on the board?',
+              DEFAULT_POST_LIFETIME,
+            ),
+            deposit: await askNumber(rli, logger, 'How many NIGHT tokens must be deposited with each post?', 0n),
+            membersOnly: await askYesNo(rli, logger, 'Should only members that you add be able to post?', false),
+            auctionWindow: await askNumber(
+              rli,
+              logger,
+              'For how many seconds should sealed bids for a vacant slot be accepted, and then revealed? (0 for no auctions)',
+              0n,
+            ),
+            cooldown: await askNumber(
+              rli,
+              logger,
+              'How many seconds must users wait to post again after taking down a post?',
+              0n,
+            ),
+            ...(await askCommittee(rli, logger)),
+            gateToken: await askGateToken(rli, logger),
+          },
+          logger,
+        );
         logger.info(`Deployed contract at address: ${api.deployedContractAddress}`);
         return api;
       case '2':
@@ -125,46 +275,300 @@ const displayLedgerState = async (
   if (ledgerState === null) {
     logger.info(`There is no bulletin board contract deployed at ${contractAddress}`);
   } else {
-    const boardState = ledgerState.state === State.OCCUPIED ? 'occupied' : 'vacant';
-    const latestMessage = !ledgerState.message.is_some ? 'none' : ledgerState.message.value;
-    logger.info(`Current state is: '${boardState}'`);
-    logger.info(`Current message is: '${latestMessage}'`);
+    logger.info(`Title is: '${ledgerState.title}'`);
+    logger.info(`Description is: '${ledgerState.description}'`);
     logger.info(`Current sequence is: ${ledgerState.sequence}`);
-    logger.info(`Current owner is: '${toHex(ledgerState.owner)}'`);
+    if (ledgerState.posts.isEmpty()) {
+      logger.info(`Every slot is vacant`);
+    }
+    logger.info(`Post lifetime is: ${ledgerState.postLifetime} seconds`);
+    logger.info(`Moderator is: '${toHex(ledgerState.moderator)}'`);
+    logger.info(`Deposit per post is: ${ledgerState.deposit}`);
+    logger.info(`Deployer is: '${toHex(ledgerState.deployer)}'`);
+    logger.info(`Members only: ${ledgerState.membersOnly ? 'yes' : 'no'}`);
+    logger.info(`Members tree holds: ${ledgerState.members.firstFree()} members`);
+    logger.info(`Paused: ${ledgerState.paused ? 'yes' : 'no'}`);
+    logger.info(`Auction window is: ${ledgerState.auctionWindow} seconds`);
+    logger.info(`Cooldown is: ${ledgerState.cooldown} seconds`);
+    logger.info(`Moderator committee holds: ${ledgerState.committee.firstFree()} moderators`);
+    logger.info(`Take down threshold is: ${ledgerState.takeDownThreshold} approvals`);
+    logger.info(`Gate token is: '${toHex(ledgerState.gateToken)}'`);
+    for (const [key, cooldownEndsAt] of ledgerState.cooldowns) {
+      logger.info(
+        `Rate-limit key '${toHex(key)}' cools down at: ${new Date(Number(cooldownEndsAt) * 1_000).toISOString()}`,
+      );
+    }
+    logger.info(`History holds: ${ledgerState.history.firstFree()} messages`);
+    for (const [slot, auction] of ledgerState.auctions) {
+      logger.info(`Slot ${slot} closes to bids at: ${new Date(Number(auction.biddingEndsAt) * 1_000).toISOString()}`);
+      logger.info(`Slot ${slot} closes to reveals at: ${new Date(Number(auction.revealEndsAt) * 1_000).toISOString()}`);
+      logger.info(`Slot ${slot} has sealed bids: ${ledgerState.sealedBids.lookup(slot).size()}`);
+      logger.info(`Slot ${slot} has highest bid: ${auction.highestBid} (bidder '${toHex(auction.winner)}')`);
+    }
+    for (const [slot, post] of ledgerState.posts) {
+      logger.info(
+        post.message.is_some
+          ? `Slot ${slot} has message: '${post.message.value}'`
+          : `Slot ${slot} has commitment: '${toHex(post.commitment)}' (not yet revealed)`,
+      );
+      logger.info(`Slot ${slot} has sequence: ${post.sequence}`);
+      logger.info(`Slot ${slot} has owner: '${toHex(post.owner)}'`);
+      logger.info(`Slot ${slot} is visible from: ${new Date(Number(post.visibleFrom) * 1_000).toISOString()}`);
+      logger.info(`Slot ${slot} expires at: ${new Date(Number(post.expiresAt) * 1_000).toISOString()}`);
+      if (ledgerState.deposit !== 0n || ledgerState.auctionWindow !== 0n) {
+        logger.info(`Slot ${slot} has depositor: '${toHex(post.depositor.bytes)}'`);
+      }
+      if (ledgerState.delegates.member(post.sequence)) {
+        logger.info(`Slot ${slot} has delegate: '${toHex(ledgerState.delegates.lookup(post.sequence))}'`);
+      }
+      if (ledgerState.heldBids.member(post.sequence)) {
+        logger.info(`Slot ${slot} holds winning bid: ${ledgerState.heldBids.lookup(post.sequence)}`);
+      }
+      const replyCount = ledgerState.replies.member(post.sequence)
+        ? ledgerState.replies.lookup(post.sequence).length()
+        : 0n;
+      logger.info(`Slot ${slot} has replies: ${replyCount}`);
+      if (ledgerState.tipAddresses.member(post.sequence)) {
+        logger.info(`Slot ${slot} accepts tips at: '${toHex(ledgerState.tipAddresses.lookup(post.sequence).bytes)}'`);
+      }
+      if (ledgerState.tips.member(post.sequence)) {
+        logger.info(`Slot ${slot} has been tipped: ${ledgerState.tips.lookup(post.sequence)}`);
+      }
+      if (ledgerState.pseudonyms.member(post.sequence)) {
+        const pseudonym = ledgerState.pseudonyms.lookup(post.sequence);
+        logger.info(
+          `Slot ${slot} has pseudonym: '${toHex(pseudonym)}' (reputation ${ledgerState.reputation.lookup(pseudonym)})`,
+        );
+      }
+      if (ledgerState.reactions.member(post.sequence)) {
+        for (const [kind, count] of ledgerState.reactions.lookup(post.sequence)) {
+          logger.info(`Slot ${slot} has '${ReactionKind[kind]}' reactions: ${count}`);
+        }
+      }
+      if (ledgerState.takeDownApprovals.member(post.sequence)) {
+        logger.info(`Slot ${slot} has take down approvals: ${ledgerState.takeDownApprovals.lookup(post.sequence)}`);
+      }
+    }
   }
 };
 
 /* **********************************************************************
- * displayPrivateState: shows the hex-formatted value of the secret key.
+ * displayPrivateState: shows the hex-formatted value of the secret key
+ * kept for the current board, once its private state is brought up to
+ * date.
  */
 
-const displayPrivateState = async (providers: BBoardProviders, logger: Logger): Promise<void> => {
-  const privateState = await providers.privateStateProvider.get(bboardPrivateStateKey);
-  if (privateState === null) {
+const displayPrivateState = async (
+  providers: BBoardProviders,
+  contractAddress: ContractAddress,
+  logger: Logger,
+): Promise<void> => {
+  const storedPrivateState = await providers.privateStateProvider.get(bboardPrivateStateId(contractAddress));
+  if (storedPrivateState === null) {
     logger.info(`There is no existing bulletin board private state`);
   } else {
+    const privateState = migrateBBoardPrivateState(storedPrivateState);
+    logger.info(`Current private state version is: ${privateState.version}`);
     logger.info(`Current secret key is: ${toHex(privateState.secretKey)}`);
+    if (privateState.boardKey !== undefined) {
+      logger.info(`Current board key is: ${toHex(privateState.boardKey)}`);
+    }
+    for (const [commitment, { message }] of Object.entries(privateState.pendingReveals)) {
+      logger.info(`Commitment '${commitment}' is waiting to reveal message: '${message}'`);
+    }
+    for (const [sealedBid, { slot, amount }] of Object.entries(privateState.pendingBids)) {
+      logger.info(`Sealed bid '${sealedBid}' is waiting to reveal a bid of ${amount} for slot ${slot}`);
+    }
   }
 };
 
 /* **********************************************************************
  * displayDerivedState: shows the values of derived state which is made
  * by combining the ledger state with private state. In this example, the
- * derived state compares the owner's key with the private secret key to
- * determine if the current user is the owner of the current message.
+ * derived state compares the owner's key of each post with the private
+ * secret key to determine if the current user is the owner of that post.
  */
 
 const displayDerivedState = (ledgerState: BBoardDerivedState | undefined, logger: Logger) => {
   if (ledgerState === undefined) {
     logger.info(`No bulletin board state currently available`);
   } else {
-    const boardState = ledgerState.state === State.OCCUPIED ? 'occupied' : 'vacant';
-    const latestMessage = ledgerState.state === State.OCCUPIED ? ledgerState.message : 'none';
-    logger.info(`Current state is: '${boardState}'`);
-    logger.info(`Current message is: '${latestMessage}'`);
+    logger.info(`Board title is: '${ledgerState.title}'`);
+    logger.info(`Board description is: '${ledgerState.description}'`);
+    logger.info(`Board creator is: '${ledgerState.creator}'`);
     logger.info(`Current sequence is: ${ledgerState.sequence}`);
-    logger.info(`Current owner is: '${ledgerState.isOwner ? 'you' : 'not you'}'`);
+    logger.info(`Current moderator is: '${ledgerState.isModerator ? 'you' : 'not you'}'`);
+    logger.info(`Deposit per post is: ${ledgerState.deposit}`);
+    logger.info(`Current deployer is: '${ledgerState.isDeployer ? 'you' : 'not you'}'`);
+    if (ledgerState.paused) {
+      logger.info(`The board is paused, so posts can't be changed until the deployer unpauses it`);
+    }
+    if (ledgerState.takeDownThreshold > 0n) {
+      logger.info(
+        `A moderator committee takes down posts with ${ledgerState.takeDownThreshold} approvals, and you are ${ledgerState.isCommitteeMember ? 'on it' : 'not on it'}`,
+      );
+    }
+    if (ledgerState.gateToken !== undefined) {
+      logger.info(`Only holders of the shielded token '${ledgerState.gateToken}' may post`);
+    }
+    if (ledgerState.membersOnly) {
+      logger.info(`Only members may post, and you are ${ledgerState.isMember ? 'a member' : 'not a member'}`);
+    }
+    if (ledgerState.cooldown > 0n) {
+      const cooldown = ledgerState.cooldownEndsAt === undefined ? 0 : remainingLifetime(ledgerState.cooldownEndsAt);
+      logger.info(
+        cooldown > 0
+          ? `You took down a post recently, and can post again in: ${formatDuration(cooldown)}`
+          : `You can post, and must wait ${ledgerState.cooldown} seconds to post again after taking down a post`,
+      );
+    }
+    if (ledgerState.reputation > 0n) {
+      logger.info(`Your pseudonym has reputation: ${ledgerState.reputation}`);
+    }
+    if (ledgerState.posts.length === 0) {
+      logger.info(`Every slot is vacant`);
+    }
+    for (const auction of ledgerState.auctions) {
+      const biddingTime = remainingLifetime(auction.biddingEndsAt);
+      const revealTime = remainingLifetime(auction.revealEndsAt);
+      logger.info(
+        biddingTime > 0
+          ? `Slot ${auction.slot} is being auctioned, and closes to bids in: ${formatDuration(biddingTime)}`
+          : revealTime > 0
+            ? `Slot ${auction.slot} is being auctioned, and closes to reveals in: ${formatDuration(revealTime)}`
+            : `Slot ${auction.slot} has been auctioned`,
+      );
+      logger.info(`Slot ${auction.slot} has highest bid: ${auction.highestBid}${auction.isWinner ? ' (yours)' : ''}`);
+      if (auction.hasSealedBid) {
+        logger.info(`Slot ${auction.slot} has your sealed bid, which is yet to be revealed`);
+      }
+    }
+    for (const post of ledgerState.posts) {
+      if (post.message !== undefined) {
+        logger.info(`Slot ${post.slot} has message: '${post.message}'${post.encrypted ? ' (encrypted)' : ''}`);
+      } else if (post.encrypted) {
+        logger.info(`Slot ${post.slot} has message: <encrypted>`);
+      } else if (post.pendingMessage !== undefined) {
+        logger.info(`Slot ${post.slot} will reveal message: '${post.pendingMessage}'`);
+      } else {
+        logger.info(`Slot ${post.slot} has a message that is not yet revealed`);
+      }
+      logger.info(`Slot ${post.slot} has owner: '${post.isOwner ? 'you' : 'not you'}'`);
+      if (post.hasDelegate) {
+        logger.info(`Slot ${post.slot} has delegate: '${post.isDelegate ? 'you' : 'not you'}'`);
+      }
+      for (const reply of post.replies) {
+        logger.info(`Slot ${post.slot} has reply: '${reply}'`);
+      }
+      const { [ReactionKind.seen]: seen, [ReactionKind.plusOne]: plusOne } = post.reactions;
+      logger.info(`Slot ${post.slot} has reactions: seen ${seen}, +1 ${plusOne}`);
+      logger.info(`Slot ${post.slot} has your reaction: '${post.hasReacted ? 'yes' : 'no'}'`);
+      if (post.acceptsTips) {
+        logger.info(`Slot ${post.slot} has been tipped: ${post.tips} NIGHT`);
+      }
+      if (post.reputation !== undefined) {
+        logger.info(`Slot ${post.slot} was posted under a pseudonym with reputation: ${post.reputation}`);
+      }
+      if (post.pendingApprovals !== undefined) {
+        logger.info(
+          `Slot ${post.slot} is proposed for take down, pending ${post.pendingApprovals} more approvals${post.hasApproved ? ' (you approved)' : ''}`,
+        );
+      }
+      const wait = remainingLifetime(post.visibleFrom);
+      if (wait > 0) {
+        logger.info(`Slot ${post.slot} is scheduled, and goes live in: ${formatDuration(wait)}`);
+      }
+      const lifetime = remainingLifetime(post.expiresAt);
+      logger.info(
+        lifetime > 0
+          ? `Slot ${post.slot} expires in: ${formatDuration(lifetime)}`
+          : `Slot ${post.slot} has expired and can be cleared by anyone`,
+      );
+    }
+  }
+};
+
+/* **********************************************************************
+ * displayOwnerCommitment: shows the owner key that identifies the current
+ * user for the post in a given slot. Since owner keys are derived from the
+ * sequence of each post, the key is only valid for that particular post,
+ * and can be shared with its owner without linking it to any other post.
+ */
+
+const displayOwnerCommitment = async (
+  bboardApi: BBoardAPI,
+  derivedState: BBoardDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const slot = await askNumber(rli, logger, 'Which slot holds the message you want to receive?');
+  const post = derivedState?.posts.find((post) => post.slot === slot);
+  if (post === undefined) {
+    logger.info(`Slot ${slot} is vacant`);
+  } else {
+    logger.info(`Your owner key for slot ${slot} is: ${toHex(await bboardApi.ownerCommitment(post.sequence))}`);
+  }
+};
+
+/* **********************************************************************
+ * displayDelegateKey: shows the delegate key that identifies the current
+ * user for the post in a given slot. Like owner keys, delegate keys are
+ * only valid for that particular post, and can be shared with its owner
+ * so that they can let the current user take the post down.
+ */
+
+const displayDelegateKey = async (
+  bboardApi: BBoardAPI,
+  derivedState: BBoardDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const slot = await askNumber(rli, logger, 'Which slot holds the message you want to be able to take down?');
+  const post = derivedState?.posts.find((post) => post.slot === slot);
+  if (post === undefined) {
+    logger.info(`Slot ${slot} is vacant`);
+  } else {
+    logger.info(`Your delegate key for slot ${slot} is: ${toHex(await bboardApi.delegateKey(post.sequence))}`);
+  }
+};
+
+/* **********************************************************************
+ * canPayDeposit: checks that the unshielded balance of the wallet covers
+ * the deposit that the board requires with each post, so that we don't
+ * attempt a post that the wallet can't pay for.
+ */
+
+const canPayDeposit = async (
+  walletFacade: WalletFacade,
+  derivedState: BBoardDerivedState | undefined,
+  logger: Logger,
+): Promise<boolean> => {
+  const deposit = derivedState?.deposit ?? 0n;
+  if (deposit === 0n) {
+    return true;
+  }
+  const balance = await getUnshieldedBalance(walletFacade, unshieldedToken());
+  if (balance < deposit) {
+    logger.error(`Posting requires a deposit of ${deposit} NIGHT, but your balance is only ${balance}`);
+    return false;
   }
+  logger.info(`Depositing ${deposit} NIGHT, which will be refunded once the post leaves the board`);
+  return true;
+};
+
+/* **********************************************************************
+ * hasCooledDown: checks that the current user isn't still cooling down
+ * from taking down a post, telling them how long to wait if they are,
+ * so that we don't attempt a post that the contract would reject.
+ */
+
+const hasCooledDown = (derivedState: BBoardDerivedState | undefined, logger: Logger): boolean => {
+  const cooldown = derivedState?.cooldownEndsAt === undefined ? 0 : remainingLifetime(derivedState.cooldownEndsAt);
+  if (cooldown > 0) {
+    logger.error(`You recently took down a post, so you must wait ${formatDuration(cooldown)} to post again`);
+    return false;
+  }
+  return true;
 };
 
 /* **********************************************************************
@@ -176,14 +580,45 @@ const displayDerivedState = (ledgerState: BBoardDerivedState | undefined, logger
 const MAIN_LOOP_QUESTION = `
 You can do one of the following:
   1. Post a message
-  2. Take down your message
-  3. Display the current ledger state (known by everyone)
-  4. Display the current private state (known only to this DApp instance)
-  5. Display the current derived state (known only to this DApp instance)
-  6. Exit
+  2. Commit to a message to reveal later
+  3. Reveal a message you committed to
+  4. Bid for a vacant slot (on boards that auction their slots)
+  5. Reveal your bid for a slot
+  6. Settle an auction that won't lead to a post
+  7. Reply to a message
+  8. React to a message
+  9. Tip the current poster of a message
+  10. Take down your message
+  11. Cancel your scheduled message before it goes live
+  12. Edit your message
+  13. Transfer your message to another user
+  14. Display your owner key for a message (to receive a transfer)
+  15. Add a delegate who may take down your message
+  16. Display your delegate key for a message (to be added as a delegate)
+  17. Clear an expired message
+  18. Take down any message (moderator only)
+  19. Propose taking down a message (moderator committee only)
+  20. Approve taking down a message (moderator committee only)
+  21. Display your member key (to be added to a members-only board)
+  22. Display your moderator key (to join the moderator committee of a new board)
+  23. Add a member to the board (deployer only)
+  24. Pause the board (deployer only)
+  25. Unpause the board (deployer only)
+  26. Check whether a message was posted with a given sequence
+  27. Generate a board key and save it to a file (to share with readers of encrypted messages)
+  28. Import a board key from a file
+  29. Display the current ledger state (known by everyone)
+  30. Display the current private state (known only to this DApp instance)
+  31. Display the current derived state (known only to this DApp instance)
+  32. Exit
 Which would you like to do? `;
 
-const mainLoop = async (providers: BBoardProviders, rli: Interface, logger: Logger): Promise<void> => {
+const mainLoop = async (
+  providers: BBoardProviders,
+  walletFacade: WalletFacade,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
   const bboardApi = await deployOrJoin(providers, rli, logger);
   if (bboardApi === null) {
     return;
@@ -198,23 +633,209 @@ const mainLoop = async (providers: BBoardProviders, rli: Interface, logger: Logg
       const choice = await rli.question(MAIN_LOOP_QUESTION);
       switch (choice) {
         case '1': {
+          const slot = await askNumber(
+            rli,
+            logger,
+            'Which slot do you want to post to?',
+            firstVacantSlot(currentState?.posts ?? []),
+          );
           const message = await rli.question(`What message do you want to post? `);
-          await bboardApi.post(message);
+          const encrypted =
+            currentState?.hasBoardKey === true &&
+            (await askYesNo(rli, logger, 'Do you want to encrypt the message with your board key?', false));
+          const delay = await askNumber(rli, logger, 'In how many seconds should the message go live?', 0n);
+          const visibleFrom = delay === 0n ? undefined : new Date(Date.now() + Number(delay) * 1_000);
+          const pseudonymous = await askYesNo(
+            rli,
+            logger,
+            'Do you want to post under your pseudonym, to build your reputation?',
+            false,
+          );
+          const acceptTips = await askYesNo(
+            rli,
+            logger,
+            'Do you want to accept tips? This publishes your unshielded address with the message.',
+            false,
+          );
+          if (hasCooledDown(currentState, logger) && (await canPayDeposit(walletFacade, currentState, logger))) {
+            await bboardApi.post(slot, message, { encrypted, visibleFrom, pseudonymous, acceptTips });
+          }
+          break;
+        }
+        case '2': {
+          const slot = await askNumber(
+            rli,
+            logger,
+            'Which slot do you want to commit to?',
+            firstVacantSlot(currentState?.posts ?? []),
+          );
+          const message = await rli.question(`What message do you want to reveal later? `);
+          if (hasCooledDown(currentState, logger) && (await canPayDeposit(walletFacade, currentState, logger))) {
+            await bboardApi.commitPost(slot, message);
+          }
+          break;
+        }
+        case '3': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to reveal?');
+          await bboardApi.reveal(slot);
+          break;
+        }
+        case '4': {
+          const slot = await askNumber(
+            rli,
+            logger,
+            'Which slot do you want to bid for?',
+            firstVacantSlot(currentState?.posts ?? []),
+          );
+          const amount = await askNumber(rli, logger, 'How many NIGHT tokens do you want to bid?');
+          const balance = await getUnshieldedBalance(walletFacade, unshieldedToken());
+          if (balance < amount) {
+            logger.error(`Your bid is paid when it is revealed, but your balance is only ${balance}`);
+          } else {
+            await bboardApi.bid(slot, amount);
+          }
           break;
         }
-        case '2':
-          await bboardApi.takeDown();
+        case '5': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to reveal your bid for?');
+          await bboardApi.revealBid(slot);
           break;
-        case '3':
+        }
+        case '6': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the auction you want to settle?');
+          await bboardApi.settleAuction(slot);
+          break;
+        }
+        case '7': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to reply to?');
+          const text = await rli.question(`What is your reply? `);
+          await bboardApi.reply(slot, text);
+          break;
+        }
+        case '8': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to react to?');
+          const kind = await askReactionKind(rli, logger);
+          await bboardApi.react(slot, kind);
+          break;
+        }
+        case '9': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message whose poster you want to tip?');
+          const amount = await askNumber(rli, logger, 'How many NIGHT tokens do you want to tip?');
+          const balance = await getUnshieldedBalance(walletFacade, unshieldedToken());
+          if (currentState?.posts.find((post) => post.slot === slot)?.acceptsTips === false) {
+            logger.error(`The poster of slot ${slot} doesn't accept tips`);
+          } else if (balance < amount) {
+            logger.error(`Your balance is only ${balance}`);
+          } else {
+            await bboardApi.tip(slot, amount);
+          }
+          break;
+        }
+        case '10': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to take your message down from?');
+          await bboardApi.takeDown(slot);
+          break;
+        }
+        case '11': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the scheduled message you want to cancel?');
+          await bboardApi.cancelPost(slot);
+          break;
+        }
+        case '12': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to edit?');
+          const message = await rli.question(`What should the message say instead? `);
+          await bboardApi.edit(slot, message);
+          break;
+        }
+        case '13': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to transfer?');
+          const newOwner = await rli.question(`What is the recipient's owner key (in hex)? `);
+          await bboardApi.transferOwnership(slot, fromHex(newOwner));
+          break;
+        }
+        case '14':
+          await displayOwnerCommitment(bboardApi, currentState, rli, logger);
+          break;
+        case '15': {
+          const slot = await askNumber(rli, logger, 'Which slot holds the message you want to add a delegate to?');
+          const delegate = await rli.question(`What is the delegate's delegate key (in hex)? `);
+          await bboardApi.addDelegate(slot, fromHex(delegate));
+          break;
+        }
+        case '16':
+          await displayDelegateKey(bboardApi, currentState, rli, logger);
+          break;
+        case '17': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to clear?');
+          await bboardApi.clearExpired(slot);
+          break;
+        }
+        case '18': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to take down as moderator?');
+          await bboardApi.moderatorTakeDown(slot);
+          break;
+        }
+        case '19': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to propose taking down?');
+          await bboardApi.proposeTakeDown(slot);
+          break;
+        }
+        case '20': {
+          const slot = await askNumber(rli, logger, 'Which slot do you want to approve taking down?');
+          await bboardApi.approveTakeDown(slot);
+          break;
+        }
+        case '21':
+          logger.info(`Your member key is: ${toHex(await bboardApi.memberKey())}`);
+          break;
+        case '22':
+          logger.info(`Your moderator key is: ${toHex(await bboardApi.moderatorKey())}`);
+          break;
+        case '23': {
+          const member = await rli.question(`What is the new member's member key (in hex)? `);
+          await bboardApi.addMember(fromHex(member));
+          break;
+        }
+        case '24':
+          await bboardApi.pause();
+          break;
+        case '25':
+          await bboardApi.unpause();
+          break;
+        case '26': {
+          const sequence = await askNumber(rli, logger, 'Which sequence was the message posted with?');
+          const message = await rli.question(`What message do you want to check? `);
+          logger.info(
+            (await bboardApi.wasPosted(sequence, message))
+              ? `The message was posted with sequence ${sequence}`
+              : `The message was never posted with sequence ${sequence}`,
+          );
+          break;
+        }
+        case '27': {
+          const path = await rli.question(`Which file do you want to save the board key to? `);
+          const boardKey = generateBoardKey();
+          await writeFile(path, toHex(boardKey), { mode: 0o600 });
+          await bboardApi.setBoardKey(boardKey);
+          logger.info(`Saved a new board key to: ${path}`);
+          break;
+        }
+        case '28': {
+          const path = await rli.question(`Which file do you want to import the board key from? `);
+          await bboardApi.setBoardKey(fromHex((await readFile(path, 'utf-8')).trim()));
+          logger.info(`Imported the board key from: ${path}`);
+          break;
+        }
+        case '29':
           await displayLedgerState(providers, bboardApi.deployedContract, logger);
           break;
-        case '4':
-          await displayPrivateState(providers, logger);
+        case '30':
+          await displayPrivateState(providers, bboardApi.deployedContractAddress, logger);
           break;
-        case '5':
+        case '31':
           displayDerivedState(currentState, logger);
           break;
-        case '6':
+        case '32':
           logger.info('Exiting...');
           return;
         default:
@@ -321,12 +942,12 @@ export const run = async (config: Config, testEnv: TestEnvironment, logger: Logg
         },
       }),
       publicDataProvider: indexerPublicDataProvider(envConfiguration.indexer, envConfiguration.indexerWS),
-      zkConfigProvider: new NodeZkConfigProvider<'post' | 'takeDown'>(config.zkConfigPath),
+      zkConfigProvider: new NodeZkConfigProvider<BBoardCircuitKeys>(config.zkConfigPath),
       proofProvider: httpClientProofProvider(envConfiguration.proofServer),
       walletProvider: walletProvider,
       midnightProvider: walletProvider,
     };
-    await mainLoop(providers, rli, logger);
+    await mainLoop(providers, walletFacade, rli, logger);
   } catch (e) {
     logError(logger, e);
     logger.info('Exiting...');
@@ -21,16 +21,15 @@ import {
   LedgerParameters,
   type ShieldedCoinInfo,
   type UnprovenTransaction,
+  type UserAddress,
   ZswapSecretKeys,
 } from '@midnight-ntwrk/ledger-v6';
-import {
-  type BalancedProvingRecipe,
-  type MidnightProvider,
-  type WalletProvider,
-} from '@midnight-ntwrk/midnight-js-types';
+import { type BalancedProvingRecipe, type MidnightProvider } from '@midnight-ntwrk/midnight-js-types';
 import { ttlOneHour } from '@midnight-ntwrk/midnight-js-utils';
 import { type WalletFacade } from '@midnight-ntwrk/wallet-sdk-facade';
 import type { Logger } from 'pino';
+import * as Rx from 'rxjs';
+import { type BBoardWalletProvider } from '../../api/src/index';
 
 import { getInitialShieldedState } from './wallet-utils';
 import { DustWalletOptions, EnvironmentConfiguration, FluentWalletBuilder } from '@midnight-ntwrk/testkit-js';
@@ -45,7 +44,7 @@ export const DEFAULT_DUST_OPTIONS: DustWalletOptions = {
  * Provider class that implements wallet functionality for the Midnight network.
  * Handles transaction balancing, submission, and wallet state management.
  */
-export class MidnightWalletProvider implements MidnightProvider, WalletProvider {
+export class MidnightWalletProvider implements MidnightProvider, BBoardWalletProvider {
   logger: Logger;
   readonly env: EnvironmentConfiguration;
   readonly wallet: WalletFacade;
@@ -74,6 +73,16 @@ export class MidnightWalletProvider implements MidnightProvider, WalletProvider
     return this.zswapSecretKeys.encryptionPublicKey;
   }
 
+  async getUnshieldedAddress(): Promise<UserAddress> {
+    const state = await Rx.firstValueFrom(this.wallet.unshielded.state);
+    return state.address.hexString;
+  }
+
+  async getShieldedBalance(tokenType: string): Promise<bigint> {
+    const state = await Rx.firstValueFrom(this.wallet.shielded.state);
+    return state.balances[tokenType] ?? 0n;
+  }
+
   async balanceTx(
     tx: UnprovenTransaction,
     _newCoins: ShieldedCoinInfo[],
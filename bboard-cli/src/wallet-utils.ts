@@ -44,6 +44,11 @@ export const getInitialUnshieldedState = async (logger: Logger, wallet: Unshield
   return Rx.firstValueFrom(wallet.state);
 };
 
+export const getUnshieldedBalance = async (wallet: WalletFacade, tokenType: UnshieldedTokenType): Promise<bigint> => {
+  const state = await Rx.firstValueFrom(wallet.unshielded.state);
+  return state.balances[tokenType.raw] ?? 0n;
+};
+
 export const syncWallet = (logger: Logger, wallet: WalletFacade, throttleTime = 2_000, timeout = 90_000) => {
   logger.info('Syncing wallet...');
 
@@ -27,8 +27,8 @@ import { TextPromptDialog } from './TextPromptDialog';
  * @internal
  */
 export interface EmptyCardContentProps {
-  /** A callback that will be called to create a new bulletin board. */
-  onCreateBoardCallback: () => void;
+  /** A callback that will be called to create a new bulletin board with a given title. */
+  onCreateBoardCallback: (title: string) => void;
   /** A callback that will be called to join an existing bulletin board. */
   onJoinBoardCallback: (contractAddress: ContractAddress) => void;
 }
@@ -43,6 +43,7 @@ export const EmptyCardContent: React.FC<Readonly<EmptyCardContentProps>> = ({
   onJoinBoardCallback,
 }) => {
   const [textPromptOpen, setTextPromptOpen] = useState(false);
+  const [titlePromptOpen, setTitlePromptOpen] = useState(false);
 
   return (
     <React.Fragment>
@@ -56,7 +57,12 @@ export const EmptyCardContent: React.FC<Readonly<EmptyCardContentProps>> = ({
       </CardContent>
       <CardActions disableSpacing sx={{ justifyContent: 'center' }}>
         <Tooltip title="Create a new board">
-          <IconButton data-testid="board-deploy-btn" onClick={onCreateBoardCallback}>
+          <IconButton
+            data-testid="board-deploy-btn"
+            onClick={() => {
+              setTitlePromptOpen(true);
+            }}
+          >
             <CreateBoardIcon />
           </IconButton>
         </Tooltip>
@@ -82,6 +88,17 @@ export const EmptyCardContent: React.FC<Readonly<EmptyCardContentProps>> = ({
           onJoinBoardCallback(text);
         }}
       />
+      <TextPromptDialog
+        prompt="Enter a title for the new board"
+        isOpen={titlePromptOpen}
+        onCancel={() => {
+          setTitlePromptOpen(false);
+        }}
+        onSubmit={(text) => {
+          setTitlePromptOpen(false);
+          onCreateBoardCallback(text);
+        }}
+      />
     </React.Fragment>
   );
 };
@@ -0,0 +1,279 @@
+// This file is part of midnightntwrk/example-counter.
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { Box, IconButton, ListItem, ListItemText, Typography } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/DeleteOutlined';
+import CancelScheduledIcon from '@mui/icons-material/ScheduleOutlined';
+import ClearExpiredIcon from '@mui/icons-material/AutoDeleteOutlined';
+import ModeratorDeleteIcon from '@mui/icons-material/GavelOutlined';
+import ApproveTakeDownIcon from '@mui/icons-material/HowToVoteOutlined';
+import EditIcon from '@mui/icons-material/EditOutlined';
+import TransferIcon from '@mui/icons-material/ForwardToInboxOutlined';
+import CopyOwnerKeyIcon from '@mui/icons-material/KeyOutlined';
+import RevealIcon from '@mui/icons-material/LockOpenOutlined';
+import ReplyIcon from '@mui/icons-material/ReplyOutlined';
+import SeenIcon from '@mui/icons-material/VisibilityOutlined';
+import PlusOneIcon from '@mui/icons-material/ThumbUpOutlined';
+import { type BBoardPost, ReactionKind, utils } from '../../../api/src/index';
+
+/**
+ * The props required by the {@link PostListItem} component.
+ *
+ * @internal
+ */
+export interface PostListItemProps {
+  /** The post to render. */
+  post: BBoardPost;
+  /** The current time, used to render the remaining lifetime of the post. */
+  now: Date;
+  /** `true` if the current user is the moderator of the board. */
+  isModerator: boolean;
+  /** `true` if the current user is on the moderator committee of the board. */
+  isCommitteeMember: boolean;
+  /** A callback that will be called to reveal the message that the current user committed to for the post. */
+  onRevealCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to reply to the post. */
+  onReplyCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to react to the post with a given kind of reaction. */
+  onReactCallback: (post: BBoardPost, kind: ReactionKind) => void;
+  /** A callback that will be called to take down the post, as its owner or delegate. */
+  onTakeDownCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to cancel the post before it goes live. */
+  onCancelCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to edit the message of the post. */
+  onEditCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to transfer the post to another user. */
+  onTransferCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to copy the owner key of the current user for the post. */
+  onCopyOwnerKeyCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to clear the post once it has expired. */
+  onClearExpiredCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to take down the post as the moderator of the board. */
+  onModeratorTakeDownCallback: (post: BBoardPost) => void;
+  /** A callback that will be called to propose, or approve, taking down the post as a committee member. */
+  onApproveTakeDownCallback: (post: BBoardPost) => void;
+}
+
+/**
+ * Renders a single post of a bulletin board, along with the actions that the current user may take on it.
+ *
+ * @internal
+ */
+export const PostListItem: React.FC<Readonly<PostListItemProps>> = ({
+  post,
+  now,
+  isModerator,
+  isCommitteeMember,
+  onRevealCallback,
+  onReplyCallback,
+  onReactCallback,
+  onTakeDownCallback,
+  onCancelCallback,
+  onEditCallback,
+  onTransferCallback,
+  onCopyOwnerKeyCallback,
+  onClearExpiredCallback,
+  onModeratorTakeDownCallback,
+  onApproveTakeDownCallback,
+}) => {
+  const lifetime = utils.remainingLifetime(post.expiresAt, now);
+  // The status of the post is only as fresh as the derived state, so the countdown is measured from `now` instead.
+  const wait = utils.remainingLifetime(post.visibleFrom, now);
+  const details = [
+    `Slot ${post.slot}${post.isOwner ? ' (yours)' : ''}`,
+    wait > 0 && `goes live in ${utils.formatDuration(wait)}`,
+    lifetime === 0 ? 'expired' : `expires in ${utils.formatDuration(lifetime)}`,
+    post.tips > 0n && `tipped ${post.tips} NIGHT`,
+    post.reputation !== undefined && `poster reputation ${post.reputation}`,
+    post.pendingApprovals !== undefined && `take down pending ${post.pendingApprovals} approvals`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  // Encrypted messages have always been revealed, even when the current user can't decrypt them.
+  const revealed = post.message !== undefined || post.encrypted;
+
+  return (
+    <ListItem disableGutters sx={{ flexDirection: 'column', alignItems: 'stretch' }}>
+      <ListItemText
+        data-testid={`board-posted-message-${post.slot}`}
+        primary={post.message ?? post.pendingMessage ?? (post.encrypted ? 'Encrypted' : 'Not yet revealed')}
+        primaryTypographyProps={{
+          color: post.message !== undefined ? 'primary' : 'text.secondary',
+          fontStyle: post.message !== undefined ? 'normal' : 'italic',
+        }}
+        secondary={details}
+      />
+      {post.replies.map((reply, index) => (
+        <Typography
+          key={index}
+          variant="caption"
+          color="text.secondary"
+          sx={{ pl: 2, borderLeft: 2, borderColor: 'divider' }}
+          data-testid={`board-post-reply-${post.slot}-${index}`}
+        >
+          {reply}
+        </Typography>
+      ))}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        {revealed && wait === 0 && (
+          <React.Fragment>
+            <IconButton
+              size="small"
+              title={post.hasReacted ? 'You have already reacted' : 'Mark message as seen'}
+              data-testid={`board-react-seen-btn-${post.slot}`}
+              disabled={post.hasReacted}
+              onClick={() => onReactCallback(post, ReactionKind.seen)}
+            >
+              <SeenIcon fontSize="small" />
+              <Typography variant="caption" sx={{ ml: 0.5 }} data-testid={`board-reactions-seen-${post.slot}`}>
+                {post.reactions[ReactionKind.seen].toString()}
+              </Typography>
+            </IconButton>
+            <IconButton
+              size="small"
+              title={post.hasReacted ? 'You have already reacted' : '+1 message'}
+              data-testid={`board-react-plus-one-btn-${post.slot}`}
+              disabled={post.hasReacted}
+              onClick={() => onReactCallback(post, ReactionKind.plusOne)}
+            >
+              <PlusOneIcon fontSize="small" />
+              <Typography variant="caption" sx={{ ml: 0.5 }} data-testid={`board-reactions-plus-one-${post.slot}`}>
+                {post.reactions[ReactionKind.plusOne].toString()}
+              </Typography>
+            </IconButton>
+            <IconButton
+              size="small"
+              title="Reply to message"
+              data-testid={`board-reply-message-btn-${post.slot}`}
+              onClick={() => onReplyCallback(post)}
+            >
+              <ReplyIcon fontSize="small" />
+            </IconButton>
+          </React.Fragment>
+        )}
+        {lifetime === 0 && (
+          <IconButton
+            size="small"
+            title="Clear expired message"
+            data-testid={`board-clear-expired-message-btn-${post.slot}`}
+            onClick={() => onClearExpiredCallback(post)}
+          >
+            <ClearExpiredIcon fontSize="small" />
+          </IconButton>
+        )}
+        {post.isOwner ? (
+          <React.Fragment>
+            {!revealed ? (
+              <IconButton
+                size="small"
+                title="Reveal message"
+                data-testid={`board-reveal-message-btn-${post.slot}`}
+                disabled={post.pendingMessage === undefined}
+                onClick={() => onRevealCallback(post)}
+              >
+                <RevealIcon fontSize="small" />
+              </IconButton>
+            ) : (
+              <IconButton
+                size="small"
+                title="Edit message"
+                data-testid={`board-edit-message-btn-${post.slot}`}
+                disabled={post.message === undefined}
+                onClick={() => onEditCallback(post)}
+              >
+                <EditIcon fontSize="small" />
+              </IconButton>
+            )}
+            {wait > 0 && (
+              <IconButton
+                size="small"
+                title="Cancel scheduled message"
+                data-testid={`board-cancel-message-btn-${post.slot}`}
+                onClick={() => onCancelCallback(post)}
+              >
+                <CancelScheduledIcon fontSize="small" />
+              </IconButton>
+            )}
+            <IconButton
+              size="small"
+              title="Transfer message to another user"
+              data-testid={`board-transfer-message-btn-${post.slot}`}
+              onClick={() => onTransferCallback(post)}
+            >
+              <TransferIcon fontSize="small" />
+            </IconButton>
+            <IconButton
+              size="small"
+              title="Take down message"
+              data-testid={`board-take-down-message-btn-${post.slot}`}
+              onClick={() => onTakeDownCallback(post)}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </React.Fragment>
+        ) : (
+          <React.Fragment>
+            {post.isDelegate && (
+              <IconButton
+                size="small"
+                title="Take down message as delegate"
+                data-testid={`board-delegate-take-down-message-btn-${post.slot}`}
+                onClick={() => onTakeDownCallback(post)}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            )}
+            <IconButton
+              size="small"
+              title="Copy your owner key for this message"
+              data-testid={`board-copy-owner-key-btn-${post.slot}`}
+              onClick={() => onCopyOwnerKeyCallback(post)}
+            >
+              <CopyOwnerKeyIcon fontSize="small" />
+            </IconButton>
+            {isModerator && (
+              <IconButton
+                size="small"
+                title="Take down message as moderator"
+                data-testid={`board-moderator-take-down-message-btn-${post.slot}`}
+                onClick={() => onModeratorTakeDownCallback(post)}
+              >
+                <ModeratorDeleteIcon fontSize="small" />
+              </IconButton>
+            )}
+            {isCommitteeMember && (
+              <IconButton
+                size="small"
+                title={
+                  post.hasApproved
+                    ? 'You have already approved taking down this message'
+                    : post.pendingApprovals === undefined
+                      ? 'Propose taking down message'
+                      : 'Approve taking down message'
+                }
+                data-testid={`board-approve-take-down-message-btn-${post.slot}`}
+                disabled={post.hasApproved}
+                onClick={() => onApproveTakeDownCallback(post)}
+              >
+                <ApproveTakeDownIcon fontSize="small" />
+              </IconButton>
+            )}
+          </React.Fragment>
+        )}
+      </Box>
+    </ListItem>
+  );
+};
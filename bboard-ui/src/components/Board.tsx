@@ -14,31 +14,48 @@
 // limitations under the License.
 
 import React, { useCallback, useEffect, useState } from 'react';
-import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
+import { type ContractAddress, fromHex, toHex } from '@midnight-ntwrk/compact-runtime';
 import {
+  Alert,
   Backdrop,
+  Badge,
   CircularProgress,
   Card,
   CardActions,
   CardContent,
   CardHeader,
   IconButton,
+  List,
   Skeleton,
   Typography,
   TextField,
 } from '@mui/material';
-import LockIcon from '@mui/icons-material/Lock';
-import LockOpenIcon from '@mui/icons-material/LockOpen';
-import DeleteIcon from '@mui/icons-material/DeleteOutlined';
+import PostsIcon from '@mui/icons-material/ForumOutlined';
 import WriteIcon from '@mui/icons-material/EditNoteOutlined';
+import CommitIcon from '@mui/icons-material/LockOutlined';
+import EncryptIcon from '@mui/icons-material/EnhancedEncryptionOutlined';
+import PseudonymIcon from '@mui/icons-material/VerifiedOutlined';
+import ImportBoardKeyIcon from '@mui/icons-material/VpnKeyOutlined';
+import GenerateBoardKeyIcon from '@mui/icons-material/PasswordOutlined';
+import CopyMemberKeyIcon from '@mui/icons-material/BadgeOutlined';
+import AddMemberIcon from '@mui/icons-material/PersonAddOutlined';
+import PauseIcon from '@mui/icons-material/PauseCircleOutlined';
+import UnpauseIcon from '@mui/icons-material/PlayCircleOutlined';
 import CopyIcon from '@mui/icons-material/ContentPasteOutlined';
 import StopIcon from '@mui/icons-material/HighlightOffOutlined';
-import { type BBoardDerivedState, type DeployedBBoardAPI } from '../../../api/src/index';
-import { useDeployedBoardContext } from '../hooks';
+import {
+  type BBoardDerivedState,
+  type BBoardPost,
+  type DeployedBBoardAPI,
+  type ReactionKind,
+  utils,
+} from '../../../api/src/index';
+import { useDeployedBoardContext, useNow } from '../hooks';
 import { type BoardDeployment } from '../contexts';
 import { type Observable } from 'rxjs';
-import { State } from '../../../contract/src/index';
 import { EmptyCardContent } from './Board.EmptyCardContent';
+import { PostListItem } from './Board.PostListItem';
+import { TextPromptDialog } from './TextPromptDialog';
 
 /** The props required by the {@link Board} component. */
 export interface BoardProps {
@@ -47,8 +64,8 @@ export interface BoardProps {
 }
 
 /**
- * Provides the UI for a deployed bulletin board contract; allowing messages to be posted or removed
- * following the rules enforced by the underlying Compact contract.
+ * Provides the UI for a deployed bulletin board contract; listing the posts in each occupied slot, and
+ * allowing messages to be posted or removed following the rules enforced by the underlying Compact contract.
  *
  * @remarks
  * With no `boardDeployment$` observable, the component will render a UI that allows the user to create
@@ -68,12 +85,21 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
   const [errorMessage, setErrorMessage] = useState<string>();
   const [boardState, setBoardState] = useState<BBoardDerivedState>();
   const [messagePrompt, setMessagePrompt] = useState<string>();
+  const [editingSlot, setEditingSlot] = useState<bigint>();
+  const [transferringSlot, setTransferringSlot] = useState<bigint>();
+  const [replyingSlot, setReplyingSlot] = useState<bigint>();
+  const [isAddingMember, setIsAddingMember] = useState(false);
+  const [isImportingBoardKey, setIsImportingBoardKey] = useState(false);
   const [isWorking, setIsWorking] = useState(!!boardDeployment$);
+  const now = useNow();
 
   // Two simple callbacks that call `resolve(...)` to either deploy or join a bulletin board
   // contract. Since the `DeployedBoardContext` will create a new board and update the UI, we
   // don't have to do anything further once we've called `resolve`.
-  const onCreateBoard = useCallback(() => boardApiProvider.resolve(), [boardApiProvider]);
+  const onCreateBoard = useCallback(
+    (title: string) => boardApiProvider.resolve(undefined, { title }),
+    [boardApiProvider],
+  );
   const onJoinBoard = useCallback(
     (contractAddress: ContractAddress) => boardApiProvider.resolve(contractAddress),
     [boardApiProvider],
@@ -81,31 +107,236 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
 
   // Callback to handle the posting of a message. The message text is captured in the `messagePrompt`
   // state, and we just need to forward it to the `post` method of the `DeployedBBoardAPI` instance
-  // that we received in the `deployedBoardAPI` state.
-  const onPostMessage = useCallback(async () => {
-    if (!messagePrompt) {
+  // that we received in the `deployedBoardAPI` state, along with the first slot that is vacant,
+  // whether the message should be encrypted with the board key, and whether it should be posted under
+  // the user's pseudonym.
+  const onPostMessage = useCallback(
+    async (encrypted: boolean, pseudonymous = false) => {
+      if (!messagePrompt || !boardState) {
+        return;
+      }
+
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.post(utils.firstVacantSlot(boardState.posts), messagePrompt, {
+            encrypted,
+            pseudonymous,
+          });
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, boardState, setErrorMessage, setIsWorking, messagePrompt],
+  );
+
+  // Callback to handle committing to a message, which claims the first vacant slot without revealing the
+  // message until `onRevealMessage` is called for that slot.
+  const onCommitMessage = useCallback(async () => {
+    if (!messagePrompt || !boardState) {
       return;
     }
 
     try {
       if (deployedBoardAPI) {
         setIsWorking(true);
-        await deployedBoardAPI.post(messagePrompt);
+        await deployedBoardAPI.commitPost(utils.firstVacantSlot(boardState.posts), messagePrompt);
       }
     } catch (error: unknown) {
       setErrorMessage(error instanceof Error ? error.message : String(error));
     } finally {
       setIsWorking(false);
     }
-  }, [deployedBoardAPI, setErrorMessage, setIsWorking, messagePrompt]);
+  }, [deployedBoardAPI, boardState, setErrorMessage, setIsWorking, messagePrompt]);
+
+  // Callback to handle the revealing of a message that the current user committed to in a given slot.
+  const onRevealMessage = useCallback(
+    async (slot: bigint) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.reveal(slot);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the reacting to the message in a given slot with a given kind of reaction.
+  const onReactMessage = useCallback(
+    async (slot: bigint, kind: ReactionKind) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.react(slot, kind);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the taking down of the message in a given slot. Again, we simply invoke the
+  // `takeDown` method of the `DeployedBBoardAPI` instance.
+  const onDeleteMessage = useCallback(
+    async (slot: bigint) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.takeDown(slot);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the cancelling of the scheduled message in a given slot, before it goes live.
+  const onCancelMessage = useCallback(
+    async (slot: bigint) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.cancelPost(slot);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the editing of the message in the slot captured in the `editingSlot` state, once the
+  // user has entered the replacement text.
+  const onEditMessage = useCallback(
+    async (message: string) => {
+      if (editingSlot === undefined) {
+        return;
+      }
+
+      try {
+        if (deployedBoardAPI) {
+          setEditingSlot(undefined);
+          setIsWorking(true);
+          await deployedBoardAPI.edit(editingSlot, message);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, editingSlot, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the transfer of the message in the slot captured in the `transferringSlot` state, once
+  // the user has entered the owner key of the recipient.
+  const onTransferMessage = useCallback(
+    async (newOwner: string) => {
+      if (transferringSlot === undefined) {
+        return;
+      }
+
+      try {
+        if (deployedBoardAPI) {
+          setTransferringSlot(undefined);
+          setIsWorking(true);
+          await deployedBoardAPI.transferOwnership(transferringSlot, fromHex(newOwner.trim()));
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, transferringSlot, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the replying to the message in the slot captured in the `replyingSlot` state, once the
+  // user has entered the text of their reply.
+  const onReplyMessage = useCallback(
+    async (text: string) => {
+      if (replyingSlot === undefined) {
+        return;
+      }
+
+      try {
+        if (deployedBoardAPI) {
+          setReplyingSlot(undefined);
+          setIsWorking(true);
+          await deployedBoardAPI.reply(replyingSlot, text);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, replyingSlot, setErrorMessage, setIsWorking],
+  );
+
+  // Copies the owner key of the current user for the post with a given sequence, so that it can be shared
+  // with the owner of that post to receive it.
+  const onCopyOwnerKey = useCallback(
+    async (sequence: bigint) => {
+      if (deployedBoardAPI) {
+        await navigator.clipboard.writeText(toHex(await deployedBoardAPI.ownerCommitment(sequence)));
+      }
+    },
+    [deployedBoardAPI],
+  );
+
+  // Copies the member key of the current user, so that it can be shared with the deployer of a members-only
+  // board to be added as a member.
+  const onCopyMemberKey = useCallback(async () => {
+    if (deployedBoardAPI) {
+      await navigator.clipboard.writeText(toHex(await deployedBoardAPI.memberKey()));
+    }
+  }, [deployedBoardAPI]);
+
+  // Callback to handle the importing of a board key that was shared out of band, once the user has entered it.
+  const onImportBoardKey = useCallback(
+    async (boardKey: string) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsImportingBoardKey(false);
+          setIsWorking(true);
+          await deployedBoardAPI.setBoardKey(fromHex(boardKey.trim()));
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
 
-  // Callback to handle the taking down of a message. Again, we simply invoke the `takeDown` method
-  // of the `DeployedBBoardAPI` instance.
-  const onDeleteMessage = useCallback(async () => {
+  // Callback to handle the generation of a new board key, which is copied to the clipboard so that it can
+  // be shared with the other readers of encrypted messages. The key is only kept once it has been copied, so
+  // that messages are never encrypted with a key that can't be shared.
+  const onGenerateBoardKey = useCallback(async () => {
     try {
       if (deployedBoardAPI) {
         setIsWorking(true);
-        await deployedBoardAPI.takeDown();
+        const boardKey = utils.generateBoardKey();
+        await navigator.clipboard.writeText(toHex(boardKey));
+        await deployedBoardAPI.setBoardKey(boardKey);
       }
     } catch (error: unknown) {
       setErrorMessage(error instanceof Error ? error.message : String(error));
@@ -114,6 +345,97 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
     }
   }, [deployedBoardAPI, setErrorMessage, setIsWorking]);
 
+  // Callback to handle the adding of a member by the deployer of the board, once the deployer has entered
+  // the member key of the new member.
+  const onAddMember = useCallback(
+    async (member: string) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsAddingMember(false);
+          setIsWorking(true);
+          await deployedBoardAPI.addMember(fromHex(member.trim()));
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the pausing, or unpausing, of the board by its deployer.
+  const onTogglePaused = useCallback(async () => {
+    if (!boardState) {
+      return;
+    }
+
+    try {
+      if (deployedBoardAPI) {
+        setIsWorking(true);
+        await (boardState.paused ? deployedBoardAPI.unpause() : deployedBoardAPI.pause());
+      }
+    } catch (error: unknown) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  }, [deployedBoardAPI, boardState, setErrorMessage, setIsWorking]);
+
+  // Callback to handle the taking down of the message in a given slot by the moderator of the board.
+  const onModeratorDeleteMessage = useCallback(
+    async (slot: bigint) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.moderatorTakeDown(slot);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the proposal, or approval, of taking down the message in a given slot by a member of the
+  // moderator committee of the board.
+  const onApproveTakeDown = useCallback(
+    async (post: BBoardPost) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await (post.pendingApprovals === undefined
+            ? deployedBoardAPI.proposeTakeDown(post.slot)
+            : deployedBoardAPI.approveTakeDown(post.slot));
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
+  // Callback to handle the clearing of an expired message from a given slot, which any user may do.
+  const onClearExpiredMessage = useCallback(
+    async (slot: bigint) => {
+      try {
+        if (deployedBoardAPI) {
+          setIsWorking(true);
+          await deployedBoardAPI.clearExpired(slot);
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedBoardAPI, setErrorMessage, setIsWorking],
+  );
+
   const onCopyContractAddress = useCallback(async () => {
     if (deployedBoardAPI) {
       await navigator.clipboard.writeText(deployedBoardAPI.deployedContractAddress);
@@ -162,6 +484,12 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
     };
   }, [boardDeployment, setIsWorking, setErrorMessage, setDeployedBoardAPI]);
 
+  // The current user may only post while the board is active, if it is members-only, only as a member, and
+  // only once they have cooled down from taking down a post.
+  const cooldown = boardState?.cooldownEndsAt ? utils.remainingLifetime(boardState.cooldownEndsAt, now) : 0;
+  const canPost =
+    !!boardState && !boardState.paused && (!boardState.membersOnly || boardState.isMember) && cooldown === 0;
+
   return (
     <Card sx={{ position: 'relative', width: 275, height: 300, minWidth: 275, minHeight: 300 }} color="primary">
       {!boardDeployment$ && (
@@ -188,17 +516,25 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
           <CardHeader
             avatar={
               boardState ? (
-                boardState.state === State.VACANT || (boardState.state === State.OCCUPIED && boardState.isOwner) ? (
-                  <LockOpenIcon data-testid="post-unlocked-icon" />
-                ) : (
-                  <LockIcon data-testid="post-locked-icon" />
-                )
+                <Badge badgeContent={boardState.posts.length} color="primary" data-testid="board-post-count">
+                  <PostsIcon />
+                </Badge>
               ) : (
                 <Skeleton variant="circular" width={20} height={20} />
               )
             }
             titleTypographyProps={{ color: 'primary' }}
-            title={toShortFormatContractAddress(deployedBoardAPI?.deployedContractAddress) ?? 'Loading...'}
+            subheader={boardState?.membersOnly ? <span data-testid="board-members-only">Members only</span> : undefined}
+            subheaderTypographyProps={{ variant: 'caption' }}
+            title={
+              boardState?.title ? (
+                <span data-testid="board-title" title={boardState.description || undefined}>
+                  {boardState.title}
+                </span>
+              ) : (
+                (toShortFormatContractAddress(deployedBoardAPI?.deployedContractAddress) ?? 'Loading...')
+              )
+            }
             action={
               deployedBoardAPI?.deployedContractAddress ? (
                 <IconButton title="Copy contract address" onClick={onCopyContractAddress}>
@@ -211,11 +547,39 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
           />
           <CardContent>
             {boardState ? (
-              boardState.state === State.OCCUPIED ? (
-                <Typography data-testid="board-posted-message" minHeight={160} color="primary">
-                  {boardState.message}
-                </Typography>
-              ) : (
+              <React.Fragment>
+                {boardState.paused && (
+                  <Alert severity="warning" sx={{ py: 0, mb: 1 }} data-testid="board-paused-banner">
+                    Paused by the deployer
+                  </Alert>
+                )}
+                <List
+                  dense
+                  disablePadding
+                  sx={{ height: boardState.paused ? 54 : 90, overflow: 'auto' }}
+                  data-testid="board-posts"
+                >
+                  {boardState.posts.map((post) => (
+                    <PostListItem
+                      key={post.slot.toString()}
+                      post={post}
+                      now={now}
+                      isModerator={boardState.isModerator}
+                      isCommitteeMember={boardState.isCommitteeMember}
+                      onRevealCallback={(post) => onRevealMessage(post.slot)}
+                      onReplyCallback={(post) => setReplyingSlot(post.slot)}
+                      onReactCallback={(post, kind) => onReactMessage(post.slot, kind)}
+                      onTakeDownCallback={(post) => onDeleteMessage(post.slot)}
+                      onCancelCallback={(post) => onCancelMessage(post.slot)}
+                      onEditCallback={(post) => setEditingSlot(post.slot)}
+                      onTransferCallback={(post) => setTransferringSlot(post.slot)}
+                      onCopyOwnerKeyCallback={(post) => onCopyOwnerKey(post.sequence)}
+                      onClearExpiredCallback={(post) => onClearExpiredMessage(post.slot)}
+                      onModeratorTakeDownCallback={(post) => onModeratorDeleteMessage(post.slot)}
+                      onApproveTakeDownCallback={(post) => onApproveTakeDown(post)}
+                    />
+                  ))}
+                </List>
                 <TextField
                   id="message-prompt"
                   data-testid="board-message-prompt"
@@ -223,8 +587,8 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
                   focused
                   fullWidth
                   multiline
-                  minRows={6}
-                  maxRows={6}
+                  minRows={2}
+                  maxRows={2}
                   placeholder="Message to post"
                   size="small"
                   color="primary"
@@ -233,7 +597,7 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
                     setMessagePrompt(e.target.value);
                   }}
                 />
-              )
+              </React.Fragment>
             ) : (
               <Skeleton variant="rectangular" width={245} height={160} />
             )}
@@ -244,26 +608,135 @@ export const Board: React.FC<Readonly<BoardProps>> = ({ boardDeployment$ }) => {
                 <IconButton
                   title="Post message"
                   data-testid="board-post-message-btn"
-                  disabled={boardState?.state === State.OCCUPIED || !messagePrompt?.length}
-                  onClick={onPostMessage}
+                  disabled={!canPost || !messagePrompt?.length}
+                  onClick={() => onPostMessage(false)}
                 >
                   <WriteIcon />
                 </IconButton>
+                {boardState?.hasBoardKey && (
+                  <IconButton
+                    title="Post message encrypted with your board key"
+                    data-testid="board-post-encrypted-message-btn"
+                    disabled={!canPost || !messagePrompt?.length}
+                    onClick={() => onPostMessage(true)}
+                  >
+                    <EncryptIcon />
+                  </IconButton>
+                )}
                 <IconButton
-                  title="Take down message"
-                  data-testid="board-take-down-message-btn"
-                  disabled={
-                    boardState?.state === State.VACANT || (boardState?.state === State.OCCUPIED && !boardState.isOwner)
-                  }
-                  onClick={onDeleteMessage}
+                  title={`Post message under your pseudonym (reputation ${boardState?.reputation ?? 0n})`}
+                  data-testid="board-post-pseudonymous-message-btn"
+                  disabled={!canPost || !messagePrompt?.length}
+                  onClick={() => onPostMessage(false, true)}
                 >
-                  <DeleteIcon />
+                  <PseudonymIcon />
                 </IconButton>
+                <IconButton
+                  title="Commit message to reveal later"
+                  data-testid="board-commit-message-btn"
+                  disabled={!canPost || !messagePrompt?.length}
+                  onClick={onCommitMessage}
+                >
+                  <CommitIcon />
+                </IconButton>
+                <IconButton
+                  title="Import a board key"
+                  data-testid="board-import-board-key-btn"
+                  onClick={() => setIsImportingBoardKey(true)}
+                >
+                  <ImportBoardKeyIcon />
+                </IconButton>
+                {boardState && !boardState.hasBoardKey && (
+                  <IconButton
+                    title="Generate and copy a new board key"
+                    data-testid="board-generate-board-key-btn"
+                    onClick={onGenerateBoardKey}
+                  >
+                    <GenerateBoardKeyIcon />
+                  </IconButton>
+                )}
+                {boardState?.membersOnly && (
+                  <IconButton
+                    title="Copy your member key"
+                    data-testid="board-copy-member-key-btn"
+                    onClick={onCopyMemberKey}
+                  >
+                    <CopyMemberKeyIcon />
+                  </IconButton>
+                )}
+                {boardState?.isDeployer && (
+                  <IconButton
+                    title={boardState.paused ? 'Unpause board' : 'Pause board'}
+                    data-testid="board-toggle-paused-btn"
+                    onClick={onTogglePaused}
+                  >
+                    {boardState.paused ? <UnpauseIcon /> : <PauseIcon />}
+                  </IconButton>
+                )}
+                {boardState?.membersOnly && boardState.isDeployer && (
+                  <IconButton
+                    title="Add a member"
+                    data-testid="board-add-member-btn"
+                    onClick={() => setIsAddingMember(true)}
+                  >
+                    <AddMemberIcon />
+                  </IconButton>
+                )}
+                {boardState && boardState.deposit > 0n && (
+                  <Typography variant="caption" color="primary" data-testid="board-deposit">
+                    Posting requires a refundable deposit of {boardState.deposit.toString()} NIGHT
+                  </Typography>
+                )}
+                {cooldown > 0 && (
+                  <Typography variant="caption" color="text.secondary" data-testid="board-cooldown">
+                    You can post again in {utils.formatDuration(cooldown)}
+                  </Typography>
+                )}
               </React.Fragment>
             ) : (
               <Skeleton variant="rectangular" width={80} height={20} />
             )}
           </CardActions>
+          <TextPromptDialog
+            prompt={`Enter the new message for slot ${editingSlot}`}
+            isOpen={editingSlot !== undefined}
+            onCancel={() => {
+              setEditingSlot(undefined);
+            }}
+            onSubmit={onEditMessage}
+          />
+          <TextPromptDialog
+            prompt={`Enter the owner key of the user to transfer slot ${transferringSlot} to`}
+            isOpen={transferringSlot !== undefined}
+            onCancel={() => {
+              setTransferringSlot(undefined);
+            }}
+            onSubmit={onTransferMessage}
+          />
+          <TextPromptDialog
+            prompt={`Enter your reply to the message in slot ${replyingSlot}`}
+            isOpen={replyingSlot !== undefined}
+            onCancel={() => {
+              setReplyingSlot(undefined);
+            }}
+            onSubmit={onReplyMessage}
+          />
+          <TextPromptDialog
+            prompt="Enter the member key of the user to add as a member"
+            isOpen={isAddingMember}
+            onCancel={() => {
+              setIsAddingMember(false);
+            }}
+            onSubmit={onAddMember}
+          />
+          <TextPromptDialog
+            prompt="Enter the board key shared with the readers of encrypted messages"
+            isOpen={isImportingBoardKey}
+            onCancel={() => {
+              setIsImportingBoardKey(false);
+            }}
+            onSubmit={onImportBoardKey}
+          />
         </React.Fragment>
       )}
     </Card>
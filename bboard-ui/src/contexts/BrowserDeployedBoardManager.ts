@@ -16,6 +16,7 @@
 import {
   BBoardAPI,
   type BBoardCircuitKeys,
+  type BBoardDeployOptions,
   type BBoardProviders,
   type DeployedBBoardAPI,
 } from '../../../api/src/index';
@@ -50,11 +51,13 @@ import {
   Transaction,
   TransactionId,
   UnprovenTransaction,
+  UserAddress,
 } from '@midnight-ntwrk/ledger-v6';
 import { BalancedProvingRecipe } from '@midnight-ntwrk/midnight-js-types';
 import { BBoardPrivateState } from '@midnight-ntwrk/bboard-contract';
 import { inMemoryPrivateStateProvider } from '../in-memory-private-state-provider';
 import { NetworkId } from '@midnight-ntwrk/midnight-js-network-id';
+import { MidnightBech32m, UnshieldedAddress } from '@midnight-ntwrk/wallet-sdk-address-format';
 
 /**
  * An in-progress bulletin board deployment.
@@ -110,13 +113,14 @@ export interface DeployedBoardAPIProvider {
    * Joins or deploys a bulletin board contract.
    *
    * @param contractAddress An optional contract address to use when resolving.
+   * @param options The options used to configure a newly deployed bulletin board.
    * @returns An observable board deployment.
    *
    * @remarks
    * For a given `contractAddress`, the method will attempt to find and join the identified bulletin board
-   * contract; otherwise it will attempt to deploy a new one.
+   * contract; otherwise it will attempt to deploy a new one, configured with `options`.
    */
-  readonly resolve: (contractAddress?: ContractAddress) => Observable<BoardDeployment>;
+  readonly resolve: (contractAddress?: ContractAddress, options?: BBoardDeployOptions) => Observable<BoardDeployment>;
 }
 
 /**
@@ -144,7 +148,7 @@ export class BrowserDeployedBoardManager implements DeployedBoardAPIProvider {
   readonly boardDeployments$: Observable<Array<Observable<BoardDeployment>>>;
 
   /** @inheritdoc */
-  resolve(contractAddress?: ContractAddress): Observable<BoardDeployment> {
+  resolve(contractAddress?: ContractAddress, options?: BBoardDeployOptions): Observable<BoardDeployment> {
     const deployments = this.#boardDeploymentsSubject.value;
     let deployment = deployments.find(
       (deployment) =>
@@ -162,7 +166,7 @@ export class BrowserDeployedBoardManager implements DeployedBoardAPIProvider {
     if (contractAddress) {
       void this.joinDeployment(deployment, contractAddress);
     } else {
-      void this.deployDeployment(deployment);
+      void this.deployDeployment(deployment, options);
     }
 
     this.#boardDeploymentsSubject.next([...deployments, deployment]);
@@ -180,10 +184,13 @@ export class BrowserDeployedBoardManager implements DeployedBoardAPIProvider {
     return this.#initializedProviders ?? (this.#initializedProviders = initializeProviders(this.logger));
   }
 
-  private async deployDeployment(deployment: BehaviorSubject<BoardDeployment>): Promise<void> {
+  private async deployDeployment(
+    deployment: BehaviorSubject<BoardDeployment>,
+    options?: BBoardDeployOptions,
+  ): Promise<void> {
     try {
       const providers = await this.getProviders();
-      const api = await BBoardAPI.deploy(providers, this.logger);
+      const api = await BBoardAPI.deploy(providers, options, this.logger);
 
       deployment.next({
         status: 'deployed',
@@ -239,6 +246,14 @@ const initializeProviders = async (logger: Logger): Promise<BBoardProviders> =>
       getEncryptionPublicKey(): string {
         return shieldedAddresses.shieldedEncryptionPublicKey;
       },
+      getUnshieldedAddress: async (): Promise<UserAddress> => {
+        const { unshieldedAddress } = await connectedAPI.getUnshieldedAddress();
+        return MidnightBech32m.parse(unshieldedAddress).decode(UnshieldedAddress, networkId).hexString;
+      },
+      getShieldedBalance: async (tokenType: string): Promise<bigint> => {
+        const balances = await connectedAPI.getShieldedBalances();
+        return balances[tokenType] ?? 0n;
+      },
       balanceTx: async (
         tx: UnprovenTransaction,
         newCoins?: ShieldedCoinInfo[],
@@ -0,0 +1,39 @@
+// This file is part of midnightntwrk/example-counter.
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Retrieves the current time, updated on a regular interval so that components can render
+ * countdowns.
+ *
+ * @param intervalMs The number of milliseconds between updates.
+ * @returns The current time.
+ *
+ * @internal
+ */
+export const useNow = (intervalMs = 1_000): Date => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const handle = setInterval(() => setNow(new Date()), intervalMs);
+
+    return () => {
+      clearInterval(handle);
+    };
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,137 @@
+// This file is part of midnightntwrk/example-counter.
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*
+ * This file defines how authors prove that they wrote a post, without
+ * making a transaction. Each post records an author key, which the circuit
+ * derives from a secret that only the poster's secret key and the sequence
+ * of the post give, and from the hash of a verifying key that the poster
+ * holds the signing key for. The author proves that they wrote the post by
+ * revealing the secret and the verifying key, and signing a challenge with
+ * the signing key; anyone can check the proof against the ledger without
+ * learning the author's secret key, or anything about their other posts.
+ */
+
+import {
+  CompactTypeBytes,
+  convertFieldToBytes,
+  persistentHash,
+  type Signature,
+  signatureVerifyingKey,
+  signData,
+  type SignatureVerifyingKey,
+  signingKeyFromBip340,
+  type SigningKey,
+  verifySignature,
+} from "@midnight-ntwrk/compact-runtime";
+import { pureCircuits } from "./managed/bboard/contract/index.js";
+
+/**
+ * A signature of an authorship claim, together with the verifying key it
+ * was made with, and the author secret of the post that it was made for
+ */
+export type AuthorshipSignature = {
+  readonly verifyingKey: SignatureVerifyingKey;
+  readonly authorSecret: Uint8Array;
+  readonly signature: Signature;
+};
+
+/**
+ * Derives the signing key with which the author of the post with a given
+ * sequence proves that they wrote it
+ */
+export const authorSigningKey = (
+  secretKey: Uint8Array,
+  sequence: bigint,
+): SigningKey =>
+  signingKeyFromBip340(
+    pureCircuits.authorSeed(secretKey, sequenceBytes(sequence)),
+  );
+
+/**
+ * Hashes a verifying key into the form that author keys are derived from
+ */
+export const verifyingKeyHash = (
+  verifyingKey: SignatureVerifyingKey,
+): Uint8Array => {
+  const encoded = new TextEncoder().encode(verifyingKey);
+  return persistentHash(new CompactTypeBytes(encoded.length), encoded);
+};
+
+/**
+ * Computes the author key that the ledger records for the post with a
+ * given sequence, if it was made with a given secret key
+ */
+export const authorKey = (
+  secretKey: Uint8Array,
+  sequence: bigint,
+): Uint8Array =>
+  pureCircuits.authorKey(
+    pureCircuits.authorSecret(secretKey, sequenceBytes(sequence)),
+    verifyingKeyHash(
+      signatureVerifyingKey(authorSigningKey(secretKey, sequence)),
+    ),
+  );
+
+/**
+ * Signs the claim that the holder of a secret key wrote the post with a
+ * given sequence on a board, for a challenge chosen by the verifier
+ */
+export const signAuthorship = (
+  secretKey: Uint8Array,
+  board: Uint8Array,
+  sequence: bigint,
+  challenge: Uint8Array,
+): AuthorshipSignature => {
+  const signingKey = authorSigningKey(secretKey, sequence);
+  return {
+    verifyingKey: signatureVerifyingKey(signingKey),
+    authorSecret: pureCircuits.authorSecret(secretKey, sequenceBytes(sequence)),
+    signature: signData(
+      signingKey,
+      pureCircuits.authorshipClaim(board, sequenceBytes(sequence), challenge),
+    ),
+  };
+};
+
+/**
+ * Determines whether a signature made with `signAuthorship` proves that
+ * the post with a given sequence on a board, recorded with a given author
+ * key, was written by the signer
+ */
+export const isAuthorshipSignature = (
+  author: Uint8Array,
+  board: Uint8Array,
+  sequence: bigint,
+  challenge: Uint8Array,
+  { verifyingKey, authorSecret, signature }: AuthorshipSignature,
+): boolean => {
+  const expected = pureCircuits.authorKey(
+    authorSecret,
+    verifyingKeyHash(verifyingKey),
+  );
+  return (
+    expected.length === author.length &&
+    expected.every((byte, i) => byte === author[i]) &&
+    verifySignature(
+      verifyingKey,
+      pureCircuits.authorshipClaim(board, sequenceBytes(sequence), challenge),
+      signature,
+    )
+  );
+};
+
+const sequenceBytes = (sequence: bigint): Uint8Array =>
+  convertFieldToBytes(32, sequence, "contract/src/authorship.ts");
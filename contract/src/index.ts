@@ -15,3 +15,4 @@
 
 export * from "./managed/bboard/contract/index.js";
 export * from "./witnesses";
+export * from "./authorship";
@@ -19,13 +19,47 @@ import {
   sampleContractAddress,
   constructorContext,
   convert_bigint_to_Uint8Array,
+  encodeContractAddress,
+  encodeUserAddress,
+  sampleUserAddress,
 } from "@midnight-ntwrk/compact-runtime";
 import {
   Contract,
   type Ledger,
   ledger,
+  ReactionKind,
 } from "../managed/bboard/contract/index.cjs";
-import { type BBoardPrivateState, witnesses } from "../witnesses.js";
+import {
+  type BBoardPrivateState,
+  createBBoardPrivateState,
+  witnesses,
+} from "../witnesses.js";
+import {
+  type AuthorshipSignature,
+  isAuthorshipSignature,
+  signAuthorship,
+} from "../authorship.js";
+
+const NO_TIP_ADDRESS = { is_some: false, value: { bytes: new Uint8Array(32) } };
+
+/**
+ * The options to deploy a board with, named as in `BBoardDeployOptions` in
+ * the API, except that the gate token is given as raw bytes, along with any
+ * witnesses to stub out
+ */
+export type BBoardSimulatorOptions = {
+  readonly postLifetime?: bigint;
+  readonly deposit?: bigint;
+  readonly membersOnly?: boolean;
+  readonly auctionWindow?: bigint;
+  readonly title?: string;
+  readonly description?: string;
+  readonly cooldown?: bigint;
+  readonly committee?: readonly Uint8Array[];
+  readonly takeDownThreshold?: bigint;
+  readonly gateToken?: Uint8Array;
+  readonly witnesses?: Partial<typeof witnesses>;
+};
 
 /**
  * Serves as a testbed to exercise the contract in tests
@@ -34,14 +68,39 @@ export class BBoardSimulator {
   readonly contract: Contract<BBoardPrivateState>;
   circuitContext: CircuitContext<BBoardPrivateState>;
 
-  constructor(secretKey: Uint8Array) {
-    this.contract = new Contract<BBoardPrivateState>(witnesses);
+  constructor(secretKey: Uint8Array, options: BBoardSimulatorOptions = {}) {
+    const {
+      postLifetime = 3_600n,
+      deposit = 0n,
+      membersOnly = false,
+      auctionWindow = 0n,
+      title = "",
+      description = "",
+      cooldown = 0n,
+      committee = [],
+      takeDownThreshold = BigInt(committee.length),
+      gateToken = new Uint8Array(32),
+    } = options;
+    this.contract = new Contract<BBoardPrivateState>({
+      ...witnesses,
+      ...options.witnesses,
+    });
     const {
       currentPrivateState,
       currentContractState,
       currentZswapLocalState,
     } = this.contract.initialState(
-      constructorContext({ secretKey }, "0".repeat(64)),
+      constructorContext(createBBoardPrivateState(secretKey), "0".repeat(64)),
+      postLifetime,
+      deposit,
+      membersOnly,
+      auctionWindow,
+      title,
+      description,
+      cooldown,
+      Array.from({ length: 16 }, (_, i) => committee[i] ?? new Uint8Array(32)),
+      takeDownThreshold,
+      gateToken,
     );
     this.circuitContext = {
       currentPrivateState,
@@ -60,11 +119,24 @@ export class BBoardSimulator {
    * TODO: is there a nicer abstraction for testing multi-user dApps?
    */
   public switchUser(secretKey: Uint8Array) {
-    this.circuitContext.currentPrivateState = {
-      secretKey,
+    this.circuitContext.currentPrivateState =
+      createBBoardPrivateState(secretKey);
+  }
+
+  /***
+   * Move the block time that circuits are checked against
+   */
+  public setBlockTime(secondsSinceEpoch: bigint) {
+    this.circuitContext.transactionContext.block = {
+      ...this.circuitContext.transactionContext.block,
+      secondsSinceEpoch,
     };
   }
 
+  public getBlockTime(): bigint {
+    return this.circuitContext.transactionContext.block.secondsSinceEpoch;
+  }
+
   public getLedger(): Ledger {
     return ledger(this.circuitContext.transactionContext.state);
   }
@@ -73,31 +145,426 @@ export class BBoardSimulator {
     return this.circuitContext.currentPrivateState;
   }
 
-  public post(message: string): Ledger {
+  public post(
+    slot: bigint,
+    message: string,
+    expiresAt = this.getBlockTime() + this.getLedger().postLifetime,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
     // Update the current context to be the result of executing the circuit.
     this.circuitContext = this.contract.impureCircuits.post(
       this.circuitContext,
+      slot,
+      message,
+      expiresAt,
+      refundTo,
+      0n,
+      false,
+      NO_TIP_ADDRESS,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public schedulePost(
+    slot: bigint,
+    message: string,
+    visibleFrom: bigint,
+    expiresAt = visibleFrom + this.getLedger().postLifetime,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.post(
+      this.circuitContext,
+      slot,
+      message,
+      expiresAt,
+      refundTo,
+      visibleFrom,
+      false,
+      NO_TIP_ADDRESS,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public postAsPseudonym(
+    slot: bigint,
+    message: string,
+    expiresAt = this.getBlockTime() + this.getLedger().postLifetime,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.post(
+      this.circuitContext,
+      slot,
       message,
+      expiresAt,
+      refundTo,
+      0n,
+      true,
+      NO_TIP_ADDRESS,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public postAcceptingTips(
+    slot: bigint,
+    message: string,
+    tipTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+    expiresAt = this.getBlockTime() + this.getLedger().postLifetime,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.post(
+      this.circuitContext,
+      slot,
+      message,
+      expiresAt,
+      refundTo,
+      0n,
+      false,
+      { is_some: true, value: tipTo },
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public commitPost(
+    slot: bigint,
+    commitment: Uint8Array,
+    expiresAt = this.getBlockTime() + this.getLedger().postLifetime,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.commitPost(
+      this.circuitContext,
+      slot,
+      commitment,
+      expiresAt,
+      refundTo,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public reveal(slot: bigint, message: string, salt: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.reveal(
+      this.circuitContext,
+      slot,
+      message,
+      salt,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public bid(
+    slot: bigint,
+    sealedBid: Uint8Array,
+    biddingEndsAt = this.getBlockTime() + this.getLedger().auctionWindow,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.bid(
+      this.circuitContext,
+      slot,
+      sealedBid,
+      biddingEndsAt,
     ).context;
     return ledger(this.circuitContext.transactionContext.state);
   }
 
-  public takeDown(): Ledger {
+  public revealBid(
+    slot: bigint,
+    amount: bigint,
+    salt: Uint8Array,
+    refundTo = { bytes: encodeUserAddress(sampleUserAddress()) },
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.revealBid(
+      this.circuitContext,
+      slot,
+      amount,
+      salt,
+      refundTo,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public settleAuction(slot: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.settleAuction(
+      this.circuitContext,
+      slot,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public addMember(member: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.addMember(
+      this.circuitContext,
+      member,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public pause(): Ledger {
+    this.circuitContext = this.contract.impureCircuits.pause(
+      this.circuitContext,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public unpause(): Ledger {
+    this.circuitContext = this.contract.impureCircuits.unpause(
+      this.circuitContext,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public reply(slot: bigint, text: string): Ledger {
+    this.circuitContext = this.contract.impureCircuits.reply(
+      this.circuitContext,
+      slot,
+      text,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public react(slot: bigint, kind: ReactionKind): Ledger {
+    this.circuitContext = this.contract.impureCircuits.react(
+      this.circuitContext,
+      slot,
+      kind,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public tip(slot: bigint, amount: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.tip(
+      this.circuitContext,
+      slot,
+      amount,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public takeDown(
+    slot: bigint,
+    cooldownEndsAt = this.getBlockTime() + this.getLedger().cooldown + 1n,
+  ): Ledger {
     this.circuitContext = this.contract.impureCircuits.takeDown(
       this.circuitContext,
+      slot,
+      cooldownEndsAt,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public cancelPost(
+    slot: bigint,
+    cooldownEndsAt = this.getBlockTime() + this.getLedger().cooldown + 1n,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.cancelPost(
+      this.circuitContext,
+      slot,
+      cooldownEndsAt,
     ).context;
     return ledger(this.circuitContext.transactionContext.state);
   }
 
-  public publicKey(): Uint8Array {
-    const sequence = convert_bigint_to_Uint8Array(
-      32,
-      this.getLedger().sequence,
+  public edit(slot: bigint, message: string): Ledger {
+    this.circuitContext = this.contract.impureCircuits.edit(
+      this.circuitContext,
+      slot,
+      message,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public transferOwnership(slot: bigint, newOwner: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.transferOwnership(
+      this.circuitContext,
+      slot,
+      newOwner,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public addDelegate(slot: bigint, delegate: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.addDelegate(
+      this.circuitContext,
+      slot,
+      delegate,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public clearExpired(slot: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.clearExpired(
+      this.circuitContext,
+      slot,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public moderatorTakeDown(slot: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.moderatorTakeDown(
+      this.circuitContext,
+      slot,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public proposeTakeDown(slot: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.proposeTakeDown(
+      this.circuitContext,
+      slot,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public approveTakeDown(slot: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.approveTakeDown(
+      this.circuitContext,
+      slot,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public signAuthorship(
+    sequence: bigint,
+    challenge: Uint8Array,
+  ): AuthorshipSignature {
+    return signAuthorship(
+      this.getPrivateState().secretKey,
+      encodeContractAddress(this.circuitContext.transactionContext.address),
+      sequence,
+      challenge,
+    );
+  }
+
+  public isAuthorshipSignature(
+    sequence: bigint,
+    challenge: Uint8Array,
+    signature: AuthorshipSignature,
+  ): boolean {
+    const authors = this.getLedger().authors;
+    return (
+      authors.member(sequence) &&
+      isAuthorshipSignature(
+        authors.lookup(sequence),
+        encodeContractAddress(this.circuitContext.transactionContext.address),
+        sequence,
+        challenge,
+        signature,
+      )
     );
+  }
+
+  public publicKey(sequence: bigint): Uint8Array {
     return this.contract.circuits.publicKey(
       this.circuitContext,
       this.getPrivateState().secretKey,
-      sequence,
+      convert_bigint_to_Uint8Array(32, sequence),
+    ).result;
+  }
+
+  public delegateKey(sequence: bigint): Uint8Array {
+    return this.contract.circuits.delegateKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      convert_bigint_to_Uint8Array(32, sequence),
     ).result;
   }
+
+  public pseudonym(): Uint8Array {
+    return this.contract.circuits.pseudonym(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      encodeContractAddress(this.circuitContext.transactionContext.address),
+    ).result;
+  }
+
+  public moderatorKey(): Uint8Array {
+    return this.contract.circuits.moderatorKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+    ).result;
+  }
+
+  public historyEntry(sequence: bigint, message: string): Uint8Array {
+    return this.contract.circuits.historyEntry(
+      this.circuitContext,
+      convert_bigint_to_Uint8Array(32, sequence),
+      message,
+    ).result;
+  }
+
+  public wasPosted(sequence: bigint, message: string): boolean {
+    return (
+      this.getLedger().history.findPathForLeaf(
+        this.historyEntry(sequence, message),
+      ) !== undefined
+    );
+  }
+
+  public postCommitment(message: string, salt: Uint8Array): Uint8Array {
+    return this.contract.circuits.postCommitment(
+      this.circuitContext,
+      message,
+      salt,
+    ).result;
+  }
+
+  public deployerKey(): Uint8Array {
+    return this.contract.circuits.deployerKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+    ).result;
+  }
+
+  public memberKey(): Uint8Array {
+    return this.contract.circuits.memberKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+    ).result;
+  }
+
+  public rateLimitKey(): Uint8Array {
+    return this.contract.circuits.rateLimitKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+    ).result;
+  }
+
+  public bidderKey(salt: Uint8Array): Uint8Array {
+    return this.contract.circuits.bidderKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      salt,
+    ).result;
+  }
+
+  public bidCommitment(amount: bigint, salt: Uint8Array): Uint8Array {
+    return this.contract.circuits.bidCommitment(
+      this.circuitContext,
+      amount,
+      salt,
+      this.bidderKey(salt),
+    ).result;
+  }
+
+  public getReplies(sequence: bigint): string[] {
+    const replies = this.getLedger().replies;
+    // replies are pushed to the front of the list, so we reverse them to read them oldest first
+    return replies.member(sequence)
+      ? Array.from(replies.lookup(sequence)).reverse()
+      : [];
+  }
+
+  public getReactions(sequence: bigint, kind: ReactionKind): bigint {
+    const reactions = this.getLedger().reactions;
+    return reactions.member(sequence) && reactions.lookup(sequence).member(kind)
+      ? reactions.lookup(sequence).lookup(kind)
+      : 0n;
+  }
+
+  public getReputation(pseudonym: Uint8Array): bigint {
+    const reputation = this.getLedger().reputation;
+    return reputation.member(pseudonym) ? reputation.lookup(pseudonym) : 0n;
+  }
+
+  public getApprovals(sequence: bigint): bigint | undefined {
+    const approvals = this.getLedger().takeDownApprovals;
+    return approvals.member(sequence) ? approvals.lookup(sequence) : undefined;
+  }
 }
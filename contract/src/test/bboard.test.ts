@@ -20,7 +20,21 @@ import {
 } from "@midnight-ntwrk/midnight-js-network-id";
 import { describe, it, expect } from "vitest";
 import { randomBytes } from "./utils.js";
-import { State } from "../managed/bboard/contract/index.cjs";
+import {
+  ReactionKind,
+  pureCircuits,
+} from "../managed/bboard/contract/index.cjs";
+import {
+  authorKey,
+  authorSigningKey,
+  verifyingKeyHash,
+} from "../authorship.js";
+import {
+  convert_bigint_to_Uint8Array,
+  encodeContractAddress,
+  signatureVerifyingKey,
+  signData,
+} from "@midnight-ntwrk/compact-runtime";
 
 setNetworkId(NetworkId.Undeployed);
 
@@ -37,12 +51,40 @@ describe("BBoard smart contract", () => {
     const simulator = new BBoardSimulator(key);
     const initialLedgerState = simulator.getLedger();
     expect(initialLedgerState.sequence).toEqual(1n);
-    expect(initialLedgerState.message.is_some).toEqual(false);
-    expect(initialLedgerState.message.value).toEqual("");
-    expect(initialLedgerState.owner).toEqual(new Uint8Array(32));
-    expect(initialLedgerState.state).toEqual(State.VACANT);
+    expect(initialLedgerState.posts.isEmpty()).toEqual(true);
+    expect(initialLedgerState.postLifetime).toEqual(3_600n);
+    expect(initialLedgerState.deposit).toEqual(0n);
+    expect(initialLedgerState.deployer).toEqual(simulator.deployerKey());
+    expect(initialLedgerState.membersOnly).toEqual(false);
+    expect(initialLedgerState.paused).toEqual(false);
+    expect(initialLedgerState.auctionWindow).toEqual(0n);
+    expect(initialLedgerState.title).toEqual("");
+    expect(initialLedgerState.description).toEqual("");
+    expect(initialLedgerState.cooldown).toEqual(0n);
+    expect(initialLedgerState.takeDownThreshold).toEqual(0n);
+    expect(initialLedgerState.gateToken).toEqual(new Uint8Array(32));
+    expect(initialLedgerState.moderator).toEqual(simulator.moderatorKey());
     const initialPrivateState = simulator.getPrivateState();
-    expect(initialPrivateState).toEqual({ secretKey: key });
+    expect(initialPrivateState).toEqual({
+      version: 1,
+      secretKey: key,
+      pendingReveals: {},
+      pendingBids: {},
+    });
+  });
+
+  it("records the title and description of the board", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      title: "Bridge Four",
+      description: "Notices for the crew of Bridge Four.",
+    });
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.title).toEqual("Bridge Four");
+    expect(ledgerState.description).toEqual(
+      "Notices for the crew of Bridge Four.",
+    );
+    // the creator of the board is identified by the deployer commitment
+    expect(ledgerState.deployer).toEqual(simulator.deployerKey());
   });
 
   it("lets you set a message", () => {
@@ -50,100 +92,1441 @@ describe("BBoard smart contract", () => {
     const initialPrivateState = simulator.getPrivateState();
     const message =
       "Szeth-son-son-Vallano, Truthless of Shinovar, wore white on the day he was to kill a king";
-    simulator.post(message);
+    simulator.post(0n, message);
     // the private ledger state shouldn't change
     expect(initialPrivateState).toEqual(simulator.getPrivateState());
     // And all the correct things should have been updated in the public ledger state
     const ledgerState = simulator.getLedger();
-    expect(ledgerState.sequence).toEqual(1n);
-    expect(ledgerState.message.is_some).toEqual(true);
-    expect(ledgerState.message.value).toEqual(message);
-    expect(ledgerState.owner).toEqual(simulator.publicKey());
-    expect(ledgerState.state).toEqual(State.OCCUPIED);
+    expect(ledgerState.sequence).toEqual(2n);
+    expect(ledgerState.posts.size()).toEqual(1n);
+    expect(ledgerState.posts.member(0n)).toEqual(true);
+    const post = ledgerState.posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.sequence).toEqual(1n);
+    expect(post.owner).toEqual(simulator.publicKey(1n));
+    expect(post.expiresAt).toEqual(simulator.getBlockTime() + 3_600n);
   });
 
   it("lets you take down a message", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
     const initialPrivateState = simulator.getPrivateState();
-    const initialPublicKey = simulator.publicKey();
     const message =
       "Prince Raoden of Arelon awoke early that morning, completely unaware that he had been damned for all eternity.";
-    simulator.post(message);
-    simulator.takeDown();
+    simulator.post(0n, message);
+    simulator.takeDown(0n);
     // the private ledger state shouldn't change
     expect(initialPrivateState).toEqual(simulator.getPrivateState());
     // And all the correct things should have been updated in the public ledger state
     const ledgerState = simulator.getLedger();
     expect(ledgerState.sequence).toEqual(2n);
-    expect(ledgerState.message.is_some).toEqual(false);
-    expect(ledgerState.message.value).toEqual("");
-    // Technically the circuit doesn't clear the previous owner
-    expect(ledgerState.owner).toEqual(initialPublicKey);
-    expect(ledgerState.state).toEqual(State.VACANT);
+    expect(ledgerState.posts.member(0n)).toEqual(false);
+    expect(ledgerState.posts.isEmpty()).toEqual(true);
   });
 
   it("lets you post another message after taking down the first", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
     const initialPrivateState = simulator.getPrivateState();
-    simulator.post("Life before Death.");
-    simulator.takeDown();
+    simulator.post(0n, "Life before Death.");
+    simulator.takeDown(0n);
     const message = "Strength before Weakness.";
-    simulator.post(message);
+    simulator.post(0n, message);
     // the private ledger state shouldn't change
     expect(initialPrivateState).toEqual(simulator.getPrivateState());
     // And all the correct things should have been updated in the public ledger state
     const ledgerState = simulator.getLedger();
-    expect(ledgerState.sequence).toEqual(2n);
-    expect(ledgerState.message.is_some).toEqual(true);
-    expect(ledgerState.message.value).toEqual(message);
-    expect(ledgerState.owner).toEqual(simulator.publicKey());
-    expect(ledgerState.state).toEqual(State.OCCUPIED);
+    expect(ledgerState.sequence).toEqual(3n);
+    const post = ledgerState.posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.sequence).toEqual(2n);
+    expect(post.owner).toEqual(simulator.publicKey(2n));
   });
 
   it("lets a different user post a message after taking down the first", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
-    simulator.post("Remember, the past need not become our future as well.");
-    simulator.takeDown();
+    simulator.post(
+      0n,
+      "Remember, the past need not become our future as well.",
+    );
+    simulator.takeDown(0n);
     simulator.switchUser(randomBytes(32));
     const message = "Joy was more than just an absence of discomfort.";
-    simulator.post(message);
+    simulator.post(0n, message);
     const ledgerState = simulator.getLedger();
-    expect(ledgerState.sequence).toEqual(2n);
-    expect(ledgerState.message.is_some).toEqual(true);
-    expect(ledgerState.message.value).toEqual(message);
-    expect(ledgerState.owner).toEqual(simulator.publicKey());
-    expect(ledgerState.state).toEqual(State.OCCUPIED);
+    expect(ledgerState.sequence).toEqual(3n);
+    const post = ledgerState.posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.owner).toEqual(simulator.publicKey(2n));
+  });
+
+  it("lets different users post to different slots", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const firstMessage = "The most important step a man can take.";
+    simulator.post(0n, firstMessage);
+    const firstOwner = simulator.publicKey(1n);
+    simulator.switchUser(randomBytes(32));
+    const secondMessage = "It's not the first one, is it?";
+    simulator.post(1n, secondMessage);
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.sequence).toEqual(3n);
+    expect(ledgerState.posts.size()).toEqual(2n);
+    expect(ledgerState.posts.lookup(0n).message).toEqual({
+      is_some: true,
+      value: firstMessage,
+    });
+    expect(ledgerState.posts.lookup(0n).owner).toEqual(firstOwner);
+    expect(ledgerState.posts.lookup(1n).message).toEqual({
+      is_some: true,
+      value: secondMessage,
+    });
+    expect(ledgerState.posts.lookup(1n).owner).toEqual(simulator.publicKey(2n));
+  });
+
+  it("derives a different owner key for each post by the same user", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Honor is dead.");
+    simulator.post(1n, "But I'll see what I can do.");
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.posts.lookup(0n).owner).not.toEqual(
+      ledgerState.posts.lookup(1n).owner,
+    );
+  });
+
+  it("only takes down the post in the given slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Words are important.");
+    const message = "Journey before destination.";
+    simulator.post(1n, message);
+    simulator.takeDown(0n);
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.posts.member(0n)).toEqual(false);
+    expect(ledgerState.posts.lookup(1n).message).toEqual({
+      is_some: true,
+      value: message,
+    });
   });
 
   it("doesn't let the same user post twice", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
     simulator.post(
+      0n,
       "My name is Stephen Leeds, and I am perfectly sane. My hallucinations, however, are all quite mad.",
     );
     expect(() =>
       simulator.post(
+        0n,
         "You should know by now that I've already had greatness. I traded it for mediocrity and some measure of sanity.",
       ),
-    ).toThrow("failed assert: Attempted to post to an occupied board");
+    ).toThrow("failed assert: Attempted to post to an occupied slot");
   });
 
   it("doesn't let different users post twice", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
-    simulator.post("Ash fell from the sky");
+    simulator.post(0n, "Ash fell from the sky");
     simulator.switchUser(randomBytes(32));
     expect(() =>
-      simulator.post("I am, unfortunately, the hero of ages."),
-    ).toThrow("failed assert: Attempted to post to an occupied board");
+      simulator.post(0n, "I am, unfortunately, the hero of ages."),
+    ).toThrow("failed assert: Attempted to post to an occupied slot");
   });
 
   it("doesn't let users take down someone elses posts", () => {
     const simulator = new BBoardSimulator(randomBytes(32));
     simulator.post(
+      0n,
       "Sometimes a hypocrite is nothing more than a man in the process of changing.",
     );
     simulator.switchUser(randomBytes(32));
-    expect(() => simulator.takeDown()).toThrow(
+    expect(() => simulator.takeDown(0n)).toThrow(
+      "failed assert: Attempted to take down post, but not the current owner",
+    );
+  });
+
+  it("doesn't let users take down a post from an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "The hope of fools.");
+    expect(() => simulator.takeDown(1n)).toThrow(
+      "failed assert: Attempted to take down post from an empty slot",
+    );
+  });
+
+  it("lets a message expire earlier than the post lifetime", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    simulator.post(0n, "Expect the unexpected.", 1_060n);
+    expect(simulator.getLedger().posts.lookup(0n).expiresAt).toEqual(1_060n);
+  });
+
+  it("doesn't let a message outlive the post lifetime", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      postLifetime: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    expect(() => simulator.post(0n, "I will not be moved.", 1_601n)).toThrow(
+      "failed assert: Attempted to post a message that outlives the board's post lifetime",
+    );
+  });
+
+  it("doesn't let you post a message that has already expired", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    expect(() => simulator.post(0n, "Too late.", 1_000n)).toThrow(
+      "failed assert: Attempted to post a message that has already expired",
+    );
+  });
+
+  it("doesn't let anyone clear a message before it expires", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      postLifetime: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.post(0n, "The night is dark.");
+    simulator.switchUser(randomBytes(32));
+    simulator.setBlockTime(1_599n);
+    expect(() => simulator.clearExpired(0n)).toThrow(
+      "failed assert: Attempted to clear a post that has not expired",
+    );
+  });
+
+  it("lets anyone clear a message once it has expired", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      postLifetime: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.post(0n, "Storms are coming.");
+    simulator.switchUser(randomBytes(32));
+    simulator.setBlockTime(1_600n);
+    simulator.clearExpired(0n);
+    expect(simulator.getLedger().posts.member(0n)).toEqual(false);
+    const message = "The storm has passed.";
+    simulator.post(0n, message);
+    const post = simulator.getLedger().posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.owner).toEqual(simulator.publicKey(2n));
+  });
+
+  it("doesn't let anyone clear an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.clearExpired(0n)).toThrow(
+      "failed assert: Attempted to clear an empty slot",
+    );
+  });
+
+  it("lets the moderator take down someone elses post", () => {
+    const moderatorKey = randomBytes(32);
+    const simulator = new BBoardSimulator(moderatorKey);
+    simulator.switchUser(randomBytes(32));
+    simulator.post(0n, "Nothing unusual to see here.");
+    simulator.switchUser(moderatorKey);
+    simulator.moderatorTakeDown(0n);
+    expect(simulator.getLedger().posts.member(0n)).toEqual(false);
+  });
+
+  it("doesn't let anyone but the moderator use the moderator take down", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.switchUser(randomBytes(32));
+    simulator.post(0n, "I'll take it down myself, thanks.");
+    expect(() => simulator.moderatorTakeDown(0n)).toThrow(
+      "failed assert: Attempted to take down post, but not the moderator",
+    );
+  });
+
+  it("doesn't let the moderator take down a post from an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.moderatorTakeDown(0n)).toThrow(
+      "failed assert: Attempted to take down post from an empty slot",
+    );
+  });
+
+  it("lets you edit your message in place", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Ths is a typo.");
+    const before = simulator.getLedger();
+    const message = "This was a typo.";
+    simulator.edit(0n, message);
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.sequence).toEqual(before.sequence);
+    const post = ledgerState.posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.sequence).toEqual(before.posts.lookup(0n).sequence);
+    expect(post.owner).toEqual(before.posts.lookup(0n).owner);
+    expect(post.expiresAt).toEqual(before.posts.lookup(0n).expiresAt);
+  });
+
+  it("doesn't let users edit someone elses posts", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Mine, and mine alone.");
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.edit(0n, "Not any more.")).toThrow(
+      "failed assert: Attempted to edit post, but not the current owner",
+    );
+  });
+
+  it("doesn't let users edit a post in an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.edit(0n, "Is anybody there?")).toThrow(
+      "failed assert: Attempted to edit post in an empty slot",
+    );
+  });
+
+  it("lets you transfer your post to another user", () => {
+    const ownerKey = randomBytes(32);
+    const recipientKey = randomBytes(32);
+    const simulator = new BBoardSimulator(ownerKey);
+    const message = "Take care of this for me.";
+    simulator.post(0n, message);
+    simulator.switchUser(recipientKey);
+    const recipientPublicKey = simulator.publicKey(1n);
+    simulator.switchUser(ownerKey);
+    simulator.transferOwnership(0n, recipientPublicKey);
+    const post = simulator.getLedger().posts.lookup(0n);
+    expect(post.owner).toEqual(recipientPublicKey);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(post.sequence).toEqual(1n);
+    // the former owner has handed over their takedown rights...
+    expect(() => simulator.takeDown(0n)).toThrow(
       "failed assert: Attempted to take down post, but not the current owner",
     );
+    // ...to the recipient
+    simulator.switchUser(recipientKey);
+    simulator.takeDown(0n);
+    expect(simulator.getLedger().posts.member(0n)).toEqual(false);
+  });
+
+  it("doesn't let users transfer someone elses posts", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "This one isn't yours to give.");
+    simulator.switchUser(randomBytes(32));
+    expect(() =>
+      simulator.transferOwnership(0n, simulator.publicKey(1n)),
+    ).toThrow(
+      "failed assert: Attempted to transfer post, but not the current owner",
+    );
+  });
+
+  it("doesn't let users transfer a post in an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() =>
+      simulator.transferOwnership(0n, simulator.publicKey(1n)),
+    ).toThrow("failed assert: Attempted to transfer post in an empty slot");
+  });
+
+  it("keeps a history of posts after they are taken down", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const message = "Journey before destination.";
+    simulator.post(0n, message);
+    simulator.takeDown(0n);
+    expect(simulator.getLedger().posts.isEmpty()).toEqual(true);
+    expect(simulator.wasPosted(1n, message)).toEqual(true);
+  });
+
+  it("records each post in the history against its own sequence", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Life before death.");
+    simulator.post(1n, "Strength before weakness.");
+    expect(simulator.getLedger().history.firstFree()).toEqual(2n);
+    expect(simulator.wasPosted(1n, "Life before death.")).toEqual(true);
+    expect(simulator.wasPosted(2n, "Strength before weakness.")).toEqual(true);
+    expect(simulator.wasPosted(2n, "Life before death.")).toEqual(false);
+    expect(simulator.wasPosted(1n, "Journey before destination.")).toEqual(
+      false,
+    );
+  });
+
+  it("records edits in the history alongside the original message", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Honour is dead.");
+    simulator.edit(
+      0n,
+      "Honour is not dead so long as he lives in the hearts of men.",
+    );
+    expect(simulator.wasPosted(1n, "Honour is dead.")).toEqual(true);
+    expect(
+      simulator.wasPosted(
+        1n,
+        "Honour is not dead so long as he lives in the hearts of men.",
+      ),
+    ).toEqual(true);
+  });
+
+  it("records the deposit required to post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), { deposit: 1_000n });
+    expect(simulator.getLedger().deposit).toEqual(1_000n);
+  });
+
+  it("records who to refund the deposit of a post to", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), { deposit: 1_000n });
+    const refundTo = { bytes: randomBytes(32) };
+    simulator.post(0n, "Pay what you owe.", undefined, refundTo);
+    expect(simulator.getLedger().posts.lookup(0n).depositor).toEqual(refundTo);
+  });
+
+  it("records no refund address for posts to a board without deposits", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Nothing to refund.", undefined, {
+      bytes: randomBytes(32),
+    });
+    simulator.commitPost(1n, randomBytes(32), undefined, {
+      bytes: randomBytes(32),
+    });
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.posts.lookup(0n).depositor).toEqual({
+      bytes: new Uint8Array(32),
+    });
+    expect(ledgerState.posts.lookup(1n).depositor).toEqual({
+      bytes: new Uint8Array(32),
+    });
+  });
+
+  it("keeps the depositor of a post when it is transferred", () => {
+    const ownerKey = randomBytes(32);
+    const simulator = new BBoardSimulator(ownerKey, { deposit: 1_000n });
+    const refundTo = { bytes: randomBytes(32) };
+    simulator.post(0n, "The deposit stays with me.", undefined, refundTo);
+    simulator.switchUser(randomBytes(32));
+    const recipientPublicKey = simulator.publicKey(1n);
+    simulator.switchUser(ownerKey);
+    simulator.transferOwnership(0n, recipientPublicKey);
+    expect(simulator.getLedger().posts.lookup(0n).depositor).toEqual(refundTo);
+  });
+
+  it("lets you commit to a message and reveal it later", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const message =
+      "The most important step a man can take is always the next one.";
+    const salt = randomBytes(32);
+    const commitment = simulator.postCommitment(message, salt);
+    simulator.commitPost(0n, commitment);
+    let post = simulator.getLedger().posts.lookup(0n);
+    expect(post.message.is_some).toEqual(false);
+    expect(post.commitment).toEqual(commitment);
+    expect(post.owner).toEqual(simulator.publicKey(1n));
+    expect(simulator.getLedger().sequence).toEqual(2n);
+    // the message isn't in the history until it has been revealed
+    expect(simulator.wasPosted(1n, message)).toEqual(false);
+    simulator.reveal(0n, message, salt);
+    post = simulator.getLedger().posts.lookup(0n);
+    expect(post.message).toEqual({ is_some: true, value: message });
+    expect(simulator.wasPosted(1n, message)).toEqual(true);
+  });
+
+  it("doesn't let you reveal a message that doesn't match the commitment", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const salt = randomBytes(32);
+    simulator.commitPost(
+      0n,
+      simulator.postCommitment("I will protect those I hate.", salt),
+    );
+    expect(() =>
+      simulator.reveal(0n, "I will protect those I love.", salt),
+    ).toThrow(
+      "failed assert: Attempted to reveal post, but the message doesn't match its commitment",
+    );
+    expect(() =>
+      simulator.reveal(0n, "I will protect those I hate.", randomBytes(32)),
+    ).toThrow(
+      "failed assert: Attempted to reveal post, but the message doesn't match its commitment",
+    );
+  });
+
+  it("doesn't let users reveal someone elses committed message", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const message = "Not yours to tell.";
+    const salt = randomBytes(32);
+    simulator.commitPost(0n, simulator.postCommitment(message, salt));
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.reveal(0n, message, salt)).toThrow(
+      "failed assert: Attempted to reveal post, but not the current owner",
+    );
+  });
+
+  it("doesn't let you reveal a message twice", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const message = "Once is enough.";
+    const salt = randomBytes(32);
+    simulator.commitPost(0n, simulator.postCommitment(message, salt));
+    simulator.reveal(0n, message, salt);
+    expect(() => simulator.reveal(0n, message, salt)).toThrow(
+      "failed assert: Attempted to reveal post, but it has already been revealed",
+    );
+    simulator.post(1n, "Already out in the open.");
+    expect(() => simulator.reveal(1n, message, salt)).toThrow(
+      "failed assert: Attempted to reveal post, but it has already been revealed",
+    );
+  });
+
+  it("doesn't let you edit a committed message before it is revealed", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.commitPost(
+      0n,
+      simulator.postCommitment("Wait for it.", randomBytes(32)),
+    );
+    expect(() => simulator.edit(0n, "Spoilers!")).toThrow(
+      "failed assert: Attempted to edit post, but it hasn't been revealed",
+    );
+  });
+
+  it("lets you take down a committed message without revealing it", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.commitPost(
+      0n,
+      simulator.postCommitment("Never mind.", randomBytes(32)),
+    );
+    simulator.takeDown(0n);
+    expect(simulator.getLedger().posts.isEmpty()).toEqual(true);
+  });
+
+  it("lets anyone post to a board that isn't members-only", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.switchUser(randomBytes(32));
+    simulator.post(0n, "Open to all.");
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+  });
+
+  it("lets the deployer post to a members-only board", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      membersOnly: true,
+    });
+    expect(simulator.getLedger().membersOnly).toEqual(true);
+    simulator.post(0n, "Welcome to the Knights Radiant.");
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+  });
+
+  it("doesn't let non-members post to a members-only board", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      membersOnly: true,
+    });
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.post(0n, "Let me in.")).toThrow(
+      "failed assert: Attempted to post, but not a member of the board",
+    );
+    expect(() =>
+      simulator.commitPost(
+        0n,
+        simulator.postCommitment("Let me in.", randomBytes(32)),
+      ),
+    ).toThrow(
+      "failed assert: Attempted to post, but not a member of the board",
+    );
+  });
+
+  it("lets the deployer add members to a members-only board", () => {
+    const deployerKey = randomBytes(32);
+    const memberKey = randomBytes(32);
+    const simulator = new BBoardSimulator(deployerKey, { membersOnly: true });
+    simulator.switchUser(memberKey);
+    const member = simulator.memberKey();
+    simulator.switchUser(deployerKey);
+    simulator.addMember(member);
+    simulator.switchUser(memberKey);
+    simulator.post(0n, "Life before death.");
+    const post = simulator.getLedger().posts.lookup(0n);
+    // the post is owned by the member, but doesn't reveal which member made it
+    expect(post.owner).toEqual(simulator.publicKey(1n));
+    expect(post.owner).not.toEqual(member);
+  });
+
+  it("only lets members react to posts on a members-only board", () => {
+    const deployerKey = randomBytes(32);
+    const memberKey = randomBytes(32);
+    const simulator = new BBoardSimulator(deployerKey, { membersOnly: true });
+    simulator.post(0n, "Journey before destination.");
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.react(0n, ReactionKind.plusOne)).toThrow(
+      "failed assert: Attempted to react to post, but not a member of the board",
+    );
+    simulator.switchUser(memberKey);
+    const member = simulator.memberKey();
+    simulator.switchUser(deployerKey);
+    simulator.addMember(member);
+    simulator.switchUser(memberKey);
+    simulator.react(0n, ReactionKind.plusOne);
+    expect(simulator.getReactions(1n, ReactionKind.plusOne)).toEqual(1n);
+  });
+
+  it("doesn't let users other than the deployer add members", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      membersOnly: true,
+    });
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.addMember(simulator.memberKey())).toThrow(
+      "failed assert: Attempted to add a member, but not the deployer",
+    );
+  });
+
+  it("lets the deployer pause and unpause the board", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Before the storm.");
+    expect(simulator.pause().paused).toEqual(true);
+    expect(() => simulator.post(1n, "During the storm.")).toThrow(
+      "failed assert: Attempted to post, but the board is paused",
+    );
+    expect(() => simulator.takeDown(0n)).toThrow(
+      "failed assert: Attempted to take down post, but the board is paused",
+    );
+    expect(simulator.unpause().paused).toEqual(false);
+    simulator.post(1n, "After the storm.");
+    simulator.takeDown(0n);
+    expect(simulator.getLedger().posts.member(0n)).toEqual(false);
+    expect(simulator.getLedger().posts.member(1n)).toEqual(true);
+  });
+
+  it("freezes every post while the board is paused", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      postLifetime: 600n,
+    });
+    simulator.post(0n, "Frozen in place.");
+    simulator.pause();
+    expect(() => simulator.edit(0n, "Thawed.")).toThrow(
+      "failed assert: Attempted to edit post, but the board is paused",
+    );
+    expect(() =>
+      simulator.transferOwnership(0n, simulator.publicKey(1n)),
+    ).toThrow(
+      "failed assert: Attempted to transfer post, but the board is paused",
+    );
+    simulator.setBlockTime(simulator.getBlockTime() + 600n);
+    expect(() => simulator.clearExpired(0n)).toThrow(
+      "failed assert: Attempted to clear a post, but the board is paused",
+    );
+  });
+
+  it("lets the moderator take down posts while the board is paused", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Remove me regardless.");
+    simulator.pause();
+    simulator.moderatorTakeDown(0n);
+    expect(simulator.getLedger().posts.isEmpty()).toEqual(true);
+  });
+
+  it("doesn't let users other than the deployer pause or unpause the board", () => {
+    const deployerKey = randomBytes(32);
+    const simulator = new BBoardSimulator(deployerKey);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.pause()).toThrow(
+      "failed assert: Attempted to pause the board, but not the deployer",
+    );
+    simulator.switchUser(deployerKey);
+    simulator.pause();
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.unpause()).toThrow(
+      "failed assert: Attempted to unpause the board, but not the deployer",
+    );
+  });
+
+  it("doesn't let the deployer pause a paused board, or unpause an active one", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.unpause()).toThrow(
+      "failed assert: Attempted to unpause the board, but it isn't paused",
+    );
+    simulator.pause();
+    expect(() => simulator.pause()).toThrow(
+      "failed assert: Attempted to pause the board, but it is already paused",
+    );
+  });
+
+  it("lets anyone reply to a post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Who is the Lopen?");
+    simulator.switchUser(randomBytes(32));
+    simulator.reply(0n, "The Lopen is the Lopen.");
+    simulator.switchUser(randomBytes(32));
+    simulator.reply(0n, "Gancho!");
+    expect(simulator.getReplies(1n)).toEqual([
+      "The Lopen is the Lopen.",
+      "Gancho!",
+    ]);
+  });
+
+  it("keeps replies with the post they were made to", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "First.");
+    simulator.post(1n, "Second.");
+    simulator.reply(1n, "Reply to second.");
+    expect(simulator.getReplies(1n)).toEqual([]);
+    expect(simulator.getReplies(2n)).toEqual(["Reply to second."]);
+  });
+
+  it("clears the replies to a post when it is taken down", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Going, going...");
+    simulator.reply(0n, "Gone.");
+    expect(simulator.takeDown(0n).replies.member(1n)).toEqual(false);
+    // a new post to the same slot starts a new thread
+    simulator.post(0n, "Back again.");
+    expect(simulator.getReplies(2n)).toEqual([]);
+  });
+
+  it("doesn't let users reply to an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.reply(0n, "Hello?")).toThrow(
+      "failed assert: Attempted to reply to post in an empty slot",
+    );
+  });
+
+  it("doesn't let users reply to a post before it is revealed", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.commitPost(
+      0n,
+      simulator.postCommitment("A secret.", randomBytes(32)),
+    );
+    expect(() => simulator.reply(0n, "Tell me!")).toThrow(
+      "failed assert: Attempted to reply to post, but it hasn't been revealed",
+    );
+  });
+
+  it("counts reactions to a post by kind", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Storms, that's a lot of spren.");
+    simulator.react(0n, ReactionKind.seen);
+    simulator.switchUser(randomBytes(32));
+    simulator.react(0n, ReactionKind.plusOne);
+    simulator.switchUser(randomBytes(32));
+    simulator.react(0n, ReactionKind.plusOne);
+    expect(simulator.getReactions(1n, ReactionKind.seen)).toEqual(1n);
+    expect(simulator.getReactions(1n, ReactionKind.plusOne)).toEqual(2n);
+  });
+
+  it("doesn't let users react to the same post twice", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Only once.");
+    simulator.react(0n, ReactionKind.seen);
+    expect(() => simulator.react(0n, ReactionKind.seen)).toThrow(
+      "failed assert: Attempted to react to post, but already reacted to it",
+    );
+    expect(() => simulator.react(0n, ReactionKind.plusOne)).toThrow(
+      "failed assert: Attempted to react to post, but already reacted to it",
+    );
+  });
+
+  it("lets users react once to each post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "First.");
+    simulator.post(1n, "Second.");
+    simulator.react(0n, ReactionKind.plusOne);
+    simulator.react(1n, ReactionKind.plusOne);
+    expect(simulator.getReactions(1n, ReactionKind.plusOne)).toEqual(1n);
+    expect(simulator.getReactions(2n, ReactionKind.plusOne)).toEqual(1n);
+  });
+
+  it("doesn't reveal who reacted to a post", () => {
+    const key = randomBytes(32);
+    const simulator = new BBoardSimulator(key);
+    simulator.post(0n, "Who was that?");
+    simulator.react(0n, ReactionKind.seen);
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.reactionNullifiers.size()).toEqual(1n);
+    expect(
+      ledgerState.reactionNullifiers.member(simulator.publicKey(1n)),
+    ).toEqual(false);
+    expect(ledgerState.reactionNullifiers.member(key)).toEqual(false);
+  });
+
+  it("clears the reactions to a post when it is taken down", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Fleeting.");
+    simulator.react(0n, ReactionKind.seen);
+    expect(simulator.takeDown(0n).reactions.member(1n)).toEqual(false);
+  });
+
+  it("doesn't let users react to an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.react(0n, ReactionKind.seen)).toThrow(
+      "failed assert: Attempted to react to post in an empty slot",
+    );
+  });
+
+  it("lets the highest revealed bid win the next post to a slot", () => {
+    const aliceKey = randomBytes(32);
+    const bobKey = randomBytes(32);
+    const aliceSalt = randomBytes(32);
+    const bobSalt = randomBytes(32);
+    const simulator = new BBoardSimulator(aliceKey, { auctionWindow: 600n });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, aliceSalt));
+    simulator.switchUser(bobKey);
+    simulator.bid(0n, simulator.bidCommitment(200n, bobSalt));
+    // the amounts of the bids aren't revealed until bidding closes
+    expect(simulator.getLedger().auctions.lookup(0n).highestBid).toEqual(0n);
+    simulator.setBlockTime(1_600n);
+    simulator.switchUser(aliceKey);
+    simulator.revealBid(0n, 100n, aliceSalt);
+    simulator.switchUser(bobKey);
+    const auction = simulator.revealBid(0n, 200n, bobSalt).auctions.lookup(0n);
+    expect(auction.highestBid).toEqual(200n);
+    expect(auction.winner).toEqual(simulator.bidderKey(bobSalt));
+    simulator.setBlockTime(2_200n);
+    simulator.switchUser(aliceKey);
+    expect(() => simulator.post(0n, "Outbid.")).toThrow(
+      "failed assert: Attempted to post, but didn't win the auction for the slot",
+    );
+    simulator.switchUser(bobKey);
+    const ledgerState = simulator.post(0n, "Worth every coin.");
+    expect(ledgerState.posts.lookup(0n).owner).toEqual(simulator.publicKey(1n));
+    expect(ledgerState.auctions.member(0n)).toEqual(false);
+    expect(ledgerState.heldBids.lookup(1n)).toEqual(200n);
+  });
+
+  it("doesn't let users bid on a board that doesn't auction slots", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() =>
+      simulator.bid(0n, simulator.bidCommitment(100n, randomBytes(32))),
+    ).toThrow(
+      "failed assert: Attempted to bid for a slot, but the board doesn't auction slots",
+    );
+  });
+
+  it("doesn't let users post to a slot that hasn't been auctioned", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    expect(() => simulator.post(0n, "First come, first served?")).toThrow(
+      "failed assert: Attempted to post, but the slot hasn't been auctioned",
+    );
+  });
+
+  it("keeps bids sealed until bidding closes", () => {
+    const salt = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, salt));
+    expect(() => simulator.revealBid(0n, 100n, salt)).toThrow(
+      "failed assert: Attempted to reveal bid, but bidding is still open",
+    );
+    simulator.setBlockTime(1_600n);
+    expect(() =>
+      simulator.bid(0n, simulator.bidCommitment(200n, randomBytes(32))),
+    ).toThrow(
+      "failed assert: Attempted to bid for a slot, but bidding has closed",
+    );
+  });
+
+  it("doesn't let users reveal someone elses bid", () => {
+    const salt = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, salt));
+    simulator.setBlockTime(1_600n);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.revealBid(0n, 100n, salt)).toThrow(
+      "failed assert: Attempted to reveal bid, but it doesn't match a sealed bid",
+    );
+  });
+
+  it("doesn't let users reveal a bid that doesn't beat the highest bid", () => {
+    const aliceKey = randomBytes(32);
+    const bobKey = randomBytes(32);
+    const aliceSalt = randomBytes(32);
+    const bobSalt = randomBytes(32);
+    const simulator = new BBoardSimulator(aliceKey, { auctionWindow: 600n });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(200n, aliceSalt));
+    simulator.switchUser(bobKey);
+    simulator.bid(0n, simulator.bidCommitment(200n, bobSalt));
+    simulator.setBlockTime(1_600n);
+    simulator.switchUser(aliceKey);
+    simulator.revealBid(0n, 200n, aliceSalt);
+    simulator.switchUser(bobKey);
+    expect(() => simulator.revealBid(0n, 200n, bobSalt)).toThrow(
+      "failed assert: Attempted to reveal bid, but it doesn't beat the highest bid",
+    );
+  });
+
+  it("lets anyone settle an auction that nobody won", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, randomBytes(32)));
+    simulator.switchUser(randomBytes(32));
+    simulator.setBlockTime(2_199n);
+    expect(() => simulator.settleAuction(0n)).toThrow(
+      "failed assert: Attempted to settle an auction, but bids can still be revealed",
+    );
+    simulator.setBlockTime(2_200n);
+    const ledgerState = simulator.settleAuction(0n);
+    expect(ledgerState.auctions.member(0n)).toEqual(false);
+    expect(ledgerState.sealedBids.member(0n)).toEqual(false);
+  });
+
+  it("lets anyone settle an auction once its winner has had time to post", () => {
+    const salt = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, salt));
+    simulator.setBlockTime(1_600n);
+    simulator.revealBid(0n, 100n, salt);
+    simulator.switchUser(randomBytes(32));
+    simulator.setBlockTime(2_799n);
+    expect(() => simulator.settleAuction(0n)).toThrow(
+      "failed assert: Attempted to settle an auction, but the winner can still post",
+    );
+    simulator.setBlockTime(2_800n);
+    expect(simulator.settleAuction(0n).auctions.member(0n)).toEqual(false);
+  });
+
+  it("releases the winning bid when the post leaves the board", () => {
+    const salt = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      auctionWindow: 600n,
+    });
+    simulator.setBlockTime(1_000n);
+    simulator.bid(0n, simulator.bidCommitment(100n, salt));
+    simulator.setBlockTime(1_600n);
+    simulator.revealBid(0n, 100n, salt);
+    simulator.setBlockTime(2_200n);
+    simulator.post(0n, "Mine, for now.");
+    expect(simulator.takeDown(0n).heldBids.member(1n)).toEqual(false);
+  });
+
+  it("doesn't let you post again until your cooldown has passed", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), { cooldown: 300n });
+    simulator.setBlockTime(1_000n);
+    simulator.post(0n, "Here one moment.");
+    simulator.takeDown(0n, 1_301n);
+    expect(
+      simulator.getLedger().cooldowns.lookup(simulator.rateLimitKey()),
+    ).toEqual(1_301n);
+    simulator.setBlockTime(1_300n);
+    expect(() => simulator.post(0n, "And back again.")).toThrow(
+      "failed assert: Attempted to post, but still cooling down from taking down a post",
+    );
+    simulator.setBlockTime(1_301n);
+    simulator.post(0n, "And back again.");
+    expect(
+      simulator.getLedger().cooldowns.member(simulator.rateLimitKey()),
+    ).toEqual(false);
+  });
+
+  it("doesn't hold other users to your cooldown", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), { cooldown: 300n });
+    simulator.post(0n, "My turn.");
+    simulator.takeDown(0n);
+    simulator.switchUser(randomBytes(32));
+    simulator.post(0n, "Your turn.");
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+  });
+
+  it("doesn't let you take down a post with a cooldown that ends too soon", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), { cooldown: 300n });
+    simulator.setBlockTime(1_000n);
+    simulator.post(0n, "Cutting corners.");
+    expect(() => simulator.takeDown(0n, 1_300n)).toThrow(
+      "failed assert: Attempted to take down post with a cooldown that ends too soon",
+    );
+  });
+
+  it("doesn't record cooldowns on boards without one", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Easy come.");
+    simulator.takeDown(0n);
+    simulator.post(0n, "Easy go.");
+    expect(simulator.getLedger().cooldowns.isEmpty()).toEqual(true);
+  });
+
+  it("takes down a post once enough of the moderator committee approve", () => {
+    const moderators = [randomBytes(32), randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Something we'll regret.");
+    simulator.switchUser(moderators[0]);
+    simulator.proposeTakeDown(0n);
+    expect(simulator.getApprovals(1n)).toEqual(1n);
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+    simulator.switchUser(moderators[2]);
+    const ledgerState = simulator.approveTakeDown(0n);
+    expect(ledgerState.posts.member(0n)).toEqual(false);
+    expect(simulator.getApprovals(1n)).toEqual(undefined);
+  });
+
+  it("doesn't let the moderator committee propose a take down while the board is paused", () => {
+    const deployerKey = randomBytes(32);
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(deployerKey, {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Safe for now.");
+    simulator.pause();
+    simulator.switchUser(moderators[0]);
+    expect(() => simulator.proposeTakeDown(0n)).toThrow(
+      "failed assert: Attempted to propose a take down, but the board is paused",
+    );
+  });
+
+  it("doesn't let the moderator committee approve a take down while the board is paused", () => {
+    const deployerKey = randomBytes(32);
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(deployerKey, {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Half way out.");
+    simulator.switchUser(moderators[0]);
+    simulator.proposeTakeDown(0n);
+    simulator.switchUser(deployerKey);
+    simulator.pause();
+    simulator.switchUser(moderators[1]);
+    expect(() => simulator.approveTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down, but the board is paused",
+    );
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+  });
+
+  it("doesn't let a moderator approve the same take down twice", () => {
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Contentious.");
+    simulator.switchUser(moderators[0]);
+    simulator.proposeTakeDown(0n);
+    expect(() => simulator.approveTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down, but already approved it",
+    );
+  });
+
+  it("doesn't let users outside the committee propose or approve a take down", () => {
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Fair comment.");
+    expect(() => simulator.proposeTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down, but not on the moderator committee",
+    );
+    simulator.switchUser(moderators[0]);
+    simulator.proposeTakeDown(0n);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.approveTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down, but not on the moderator committee",
+    );
+  });
+
+  it("doesn't let the committee approve a take down that hasn't been proposed", () => {
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.post(0n, "Nothing to see here.");
+    simulator.switchUser(moderators[0]);
+    expect(() => simulator.approveTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down that hasn't been proposed",
+    );
+  });
+
+  it("doesn't carry approvals over to the next post in a slot", () => {
+    const moderators = [randomBytes(32), randomBytes(32)];
+    const poster = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      committee: moderators.map((moderator) =>
+        pureCircuits.moderatorKey(moderator),
+      ),
+      takeDownThreshold: 2n,
+    });
+    simulator.switchUser(poster);
+    simulator.post(0n, "Borderline.");
+    simulator.switchUser(moderators[0]);
+    simulator.proposeTakeDown(0n);
+    simulator.switchUser(poster);
+    simulator.takeDown(0n);
+    simulator.post(0n, "Perfectly fine.");
+    simulator.switchUser(moderators[1]);
+    expect(() => simulator.approveTakeDown(0n)).toThrow(
+      "failed assert: Attempted to approve a take down that hasn't been proposed",
+    );
+  });
+
+  it("doesn't let users propose a take down on boards without a committee", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Unmoderated.");
+    expect(() => simulator.proposeTakeDown(0n)).toThrow(
+      "failed assert: Attempted to propose a take down, but the board has no moderator committee",
+    );
+  });
+
+  it("lets a delegate take down your post", () => {
+    const ownerKey = randomBytes(32);
+    const delegateKey = randomBytes(32);
+    const simulator = new BBoardSimulator(ownerKey);
+    simulator.post(0n, "Someone else can take this down.");
+    simulator.switchUser(delegateKey);
+    const delegate = simulator.delegateKey(1n);
+    simulator.switchUser(ownerKey);
+    expect(simulator.addDelegate(0n, delegate).delegates.lookup(1n)).toEqual(
+      delegate,
+    );
+    simulator.switchUser(delegateKey);
+    const ledgerState = simulator.takeDown(0n);
+    expect(ledgerState.posts.member(0n)).toEqual(false);
+    expect(ledgerState.delegates.member(1n)).toEqual(false);
+  });
+
+  it("doesn't let users add a delegate to someone elses post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Mine to delegate.");
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.addDelegate(0n, simulator.delegateKey(1n))).toThrow(
+      "failed assert: Attempted to add delegate to post, but not the current owner",
+    );
+  });
+
+  it("forgets the delegate of a post when it is transferred", () => {
+    const ownerKey = randomBytes(32);
+    const delegateKey = randomBytes(32);
+    const simulator = new BBoardSimulator(ownerKey);
+    simulator.post(0n, "Changing hands.");
+    simulator.switchUser(delegateKey);
+    const delegate = simulator.delegateKey(1n);
+    simulator.switchUser(ownerKey);
+    simulator.addDelegate(0n, delegate);
+    simulator.transferOwnership(0n, simulator.publicKey(1n));
+    simulator.switchUser(delegateKey);
+    expect(() => simulator.takeDown(0n)).toThrow(
+      "failed assert: Attempted to take down post, but not the current owner or their delegate",
+    );
+  });
+
+  it("records an author key for each post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Remember me.");
+    const ledgerState = simulator.post(1n, "And me.");
+    expect(ledgerState.authors.member(1n)).toEqual(true);
+    expect(ledgerState.authors.member(2n)).toEqual(true);
+    // each post has its own key, so posts can't be linked by their author
+    expect(ledgerState.authors.lookup(1n)).not.toEqual(
+      ledgerState.authors.lookup(2n),
+    );
+  });
+
+  it("recognises the author key of a post that has left the board from the secret key it was made with", () => {
+    const authorSecretKey = randomBytes(32);
+    const simulator = new BBoardSimulator(authorSecretKey);
+    simulator.post(0n, "Gone, but not forgotten.");
+    const ledgerState = simulator.takeDown(0n);
+    expect(ledgerState.authors.lookup(1n)).toEqual(
+      authorKey(authorSecretKey, 1n),
+    );
+    expect(ledgerState.authors.lookup(1n)).not.toEqual(
+      authorKey(randomBytes(32), 1n),
+    );
+  });
+
+  it("doesn't let a poster attribute their post to someone elses verifying key", () => {
+    const victimKey = randomBytes(32);
+    const victimSigningKey = authorSigningKey(victimKey, 1n);
+    const victimVerifyingKey = signatureVerifyingKey(victimSigningKey);
+    // every poster records the verifying key of the victim's first post
+    const simulator = new BBoardSimulator(victimKey, {
+      witnesses: {
+        localAuthorVerifyingKey: ({ privateState }) => [
+          privateState,
+          verifyingKeyHash(victimVerifyingKey),
+        ],
+      },
+    });
+    simulator.post(0n, "My own post.");
+    simulator.switchUser(randomBytes(32));
+    simulator.post(1n, "Pinned on someone else.");
+    const challenge = randomBytes(32);
+    const signature = {
+      verifyingKey: victimVerifyingKey,
+      authorSecret: pureCircuits.authorSecret(
+        victimKey,
+        convert_bigint_to_Uint8Array(32, 1n),
+      ),
+      signature: signData(
+        victimSigningKey,
+        pureCircuits.authorshipClaim(
+          encodeContractAddress(
+            simulator.circuitContext.transactionContext.address,
+          ),
+          convert_bigint_to_Uint8Array(32, 2n),
+          challenge,
+        ),
+      ),
+    };
+    // the victim can sign for the post, but only knows their own secret
+    expect(simulator.isAuthorshipSignature(2n, challenge, signature)).toEqual(
+      false,
+    );
+  });
+
+  it("lets you prove that you wrote a post after it has left the board", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "I said it first.");
+    simulator.takeDown(0n);
+    const challenge = randomBytes(32);
+    const signature = simulator.signAuthorship(1n, challenge);
+    expect(simulator.isAuthorshipSignature(1n, challenge, signature)).toEqual(
+      true,
+    );
+  });
+
+  it("doesn't let users prove authorship of someone elses post", () => {
+    const authorKey = randomBytes(32);
+    const recipientKey = randomBytes(32);
+    const simulator = new BBoardSimulator(authorKey);
+    simulator.post(0n, "Written by me, owned by you.");
+    simulator.switchUser(recipientKey);
+    const recipientPublicKey = simulator.publicKey(1n);
+    simulator.switchUser(authorKey);
+    simulator.transferOwnership(0n, recipientPublicKey);
+    // owning a post doesn't make you its author
+    simulator.switchUser(recipientKey);
+    const challenge = randomBytes(32);
+    const signature = simulator.signAuthorship(1n, challenge);
+    expect(simulator.isAuthorshipSignature(1n, challenge, signature)).toEqual(
+      false,
+    );
+  });
+
+  it("doesn't accept a proof of authorship for a different challenge", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Don't replay me.");
+    const signature = simulator.signAuthorship(1n, randomBytes(32));
+    expect(
+      simulator.isAuthorshipSignature(1n, randomBytes(32), signature),
+    ).toEqual(false);
+  });
+
+  it("doesn't accept a proof of authorship for a different post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Mine.");
+    simulator.post(1n, "Also mine.");
+    const challenge = randomBytes(32);
+    const signature = simulator.signAuthorship(1n, challenge);
+    expect(simulator.isAuthorshipSignature(2n, challenge, signature)).toEqual(
+      false,
+    );
+  });
+
+  it("doesn't accept a proof of authorship of a post that was never made", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const challenge = randomBytes(32);
+    const signature = simulator.signAuthorship(1n, challenge);
+    expect(simulator.isAuthorshipSignature(1n, challenge, signature)).toEqual(
+      false,
+    );
+  });
+
+  it("holds a scheduled post back until it is visible", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    const post = simulator
+      .schedulePost(0n, "Coming soon.", 5_000n)
+      .posts.lookup(0n);
+    expect(post.visibleFrom).toEqual(5_000n);
+    expect(post.expiresAt).toEqual(8_600n);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.react(0n, ReactionKind.seen)).toThrow(
+      "failed assert: Attempted to react to post, but it isn't live yet",
+    );
+    expect(() => simulator.reply(0n, "Too early.")).toThrow(
+      "failed assert: Attempted to reply to post, but it isn't live yet",
+    );
+    simulator.setBlockTime(5_000n);
+    simulator.react(0n, ReactionKind.seen);
+    expect(simulator.getReactions(1n, ReactionKind.seen)).toEqual(1n);
+  });
+
+  it("doesn't let you schedule a post that outlives the board's post lifetime", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    expect(() =>
+      simulator.schedulePost(0n, "Here for too long.", 5_000n, 8_601n),
+    ).toThrow(
+      "failed assert: Attempted to post a message that outlives the board's post lifetime",
+    );
+    expect(() =>
+      simulator.schedulePost(0n, "Gone before it's here.", 5_000n, 5_000n),
+    ).toThrow(
+      "failed assert: Attempted to post a message that expires before it is visible",
+    );
+  });
+
+  it("lets you cancel your scheduled post until it is live", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    simulator.schedulePost(0n, "Never mind.", 5_000n);
+    expect(simulator.cancelPost(0n).posts.member(0n)).toEqual(false);
+    simulator.schedulePost(0n, "Too late to take back.", 5_000n);
+    simulator.setBlockTime(5_000n);
+    expect(() => simulator.cancelPost(0n)).toThrow(
+      "failed assert: Attempted to cancel post, but it is already live",
+    );
+  });
+
+  it("doesn't let users cancel someone elses scheduled post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    simulator.schedulePost(0n, "Not yours to cancel.", 5_000n);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.cancelPost(0n)).toThrow(
+      "failed assert: Attempted to cancel post, but not the current owner",
+    );
+  });
+
+  it("lets users post to a token-gated board with a coin of its token", () => {
+    const gateToken = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), { gateToken });
+    expect(simulator.getLedger().gateToken).toEqual(gateToken);
+    simulator.post(0n, "Holders only.");
+    expect(simulator.getLedger().posts.member(0n)).toEqual(true);
+  });
+
+  it("doesn't let users post to a token-gated board with a coin of another token", () => {
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      gateToken: randomBytes(32),
+      witnesses: {
+        localGateCoin: ({ privateState }) => [
+          privateState,
+          { nonce: randomBytes(32), color: randomBytes(32), value: 1n },
+        ],
+      },
+    });
+    expect(() => simulator.post(0n, "Wrong token.")).toThrow(
+      "failed assert: Attempted to post, but without a coin of the board's token",
+    );
+  });
+
+  it("doesn't let users post to a token-gated board with a worthless coin", () => {
+    const gateToken = randomBytes(32);
+    const simulator = new BBoardSimulator(randomBytes(32), {
+      gateToken,
+      witnesses: {
+        localGateCoin: ({ privateState }) => [
+          privateState,
+          { nonce: randomBytes(32), color: gateToken, value: 0n },
+        ],
+      },
+    });
+    expect(() => simulator.post(0n, "Nothing to show.")).toThrow(
+      "failed assert: Attempted to post, but without a coin of the board's token",
+    );
+  });
+
+  it("adds up the tips paid to a post", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    const tipTo = { bytes: randomBytes(32) };
+    const ledgerState = simulator.postAcceptingTips(
+      0n,
+      "Worth every NIGHT.",
+      tipTo,
+    );
+    expect(ledgerState.tipAddresses.lookup(1n)).toEqual(tipTo);
+    simulator.switchUser(randomBytes(32));
+    simulator.tip(0n, 25n);
+    simulator.switchUser(randomBytes(32));
+    expect(simulator.tip(0n, 75n).tips.lookup(1n)).toEqual(100n);
+  });
+
+  it("doesn't let users tip a post whose poster doesn't accept tips", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(
+      simulator.post(0n, "Just here to talk.").tipAddresses.isEmpty(),
+    ).toEqual(true);
+    simulator.switchUser(randomBytes(32));
+    expect(() => simulator.tip(0n, 10n)).toThrow(
+      "failed assert: Attempted to tip post, but its poster doesn't accept tips",
+    );
+  });
+
+  it("forgets the tip address of a post when it is transferred or taken down", () => {
+    const ownerKey = randomBytes(32);
+    const simulator = new BBoardSimulator(ownerKey);
+    simulator.postAcceptingTips(0n, "Tips to me, for now.");
+    simulator.switchUser(randomBytes(32));
+    const newOwner = simulator.publicKey(1n);
+    simulator.switchUser(ownerKey);
+    expect(
+      simulator.transferOwnership(0n, newOwner).tipAddresses.member(1n),
+    ).toEqual(false);
+    simulator.postAcceptingTips(1n, "Tips to me, until I leave.");
+    expect(simulator.takeDown(1n).tipAddresses.member(2n)).toEqual(false);
+  });
+
+  it("doesn't let users tip nothing, or tip a post in an empty slot", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    expect(() => simulator.tip(0n, 10n)).toThrow(
+      "failed assert: Attempted to tip post in an empty slot",
+    );
+    simulator.postAcceptingTips(0n, "Thanks in advance.");
+    expect(() => simulator.tip(0n, 0n)).toThrow(
+      "failed assert: Attempted to tip post with nothing",
+    );
+  });
+
+  it("doesn't let users tip a scheduled post before it is live", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.setBlockTime(1_000n);
+    simulator.schedulePost(0n, "Not yet.", 5_000n);
+    expect(() => simulator.tip(0n, 10n)).toThrow(
+      "failed assert: Attempted to tip post, but it isn't live yet",
+    );
+  });
+
+  it("builds a reputation for the posts made under your pseudonym", () => {
+    const posterKey = randomBytes(32);
+    const simulator = new BBoardSimulator(posterKey);
+    const pseudonym = simulator.pseudonym();
+    simulator.postAsPseudonym(0n, "Signed, a regular.");
+    expect(simulator.getLedger().pseudonyms.lookup(1n)).toEqual(pseudonym);
+    simulator.switchUser(randomBytes(32));
+    simulator.react(0n, ReactionKind.seen);
+    simulator.switchUser(randomBytes(32));
+    simulator.react(0n, ReactionKind.plusOne);
+    expect(simulator.getReputation(pseudonym)).toEqual(3n);
+    simulator.switchUser(posterKey);
+    expect(simulator.takeDown(0n).pseudonyms.member(1n)).toEqual(false);
+    simulator.postAsPseudonym(1n, "Still me.");
+    expect(simulator.getReputation(pseudonym)).toEqual(4n);
+  });
+
+  it("stops crediting your pseudonym for a post once it is transferred", () => {
+    const posterKey = randomBytes(32);
+    const recipientKey = randomBytes(32);
+    const simulator = new BBoardSimulator(posterKey);
+    const pseudonym = simulator.pseudonym();
+    simulator.postAsPseudonym(0n, "Yours now.");
+    simulator.switchUser(recipientKey);
+    const recipientPublicKey = simulator.publicKey(1n);
+    simulator.switchUser(posterKey);
+    expect(
+      simulator.transferOwnership(0n, recipientPublicKey).pseudonyms.member(1n),
+    ).toEqual(false);
+    simulator.switchUser(randomBytes(32));
+    simulator.react(0n, ReactionKind.plusOne);
+    expect(simulator.getReputation(pseudonym)).toEqual(1n);
+  });
+
+  it("doesn't build a reputation for posts made without a pseudonym", () => {
+    const simulator = new BBoardSimulator(randomBytes(32));
+    simulator.post(0n, "Nobody in particular.");
+    simulator.switchUser(randomBytes(32));
+    const ledgerState = simulator.react(0n, ReactionKind.seen);
+    expect(ledgerState.pseudonyms.member(1n)).toEqual(false);
+    expect(ledgerState.reputation.isEmpty()).toEqual(true);
   });
 });
@@ -0,0 +1,194 @@
+// This file is part of midnightntwrk/example-bboard.
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { BBoardSimulator } from "./bboard-simulator.js";
+import {
+  NetworkId,
+  setNetworkId,
+} from "@midnight-ntwrk/midnight-js-network-id";
+import { levelPrivateStateProvider } from "@midnight-ntwrk/midnight-js-level-private-state-provider";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, it, expect } from "vitest";
+import { randomBytes } from "./utils.js";
+import {
+  BBOARD_PRIVATE_STATE_VERSION,
+  createBBoardPrivateState,
+  loadBBoardPrivateState,
+  migrateBBoardPrivateState,
+  type StoredBBoardPrivateState,
+} from "../witnesses.js";
+
+setNetworkId(NetworkId.Undeployed);
+
+// Fixtures of private states as they were stored before versions were
+// recorded, by DApps that knew about some of the fields of BBoardPrivateState.
+const secretKeyOnly = (): StoredBBoardPrivateState => ({
+  secretKey: randomBytes(32),
+});
+
+const withPendingReveals = (): StoredBBoardPrivateState => ({
+  secretKey: randomBytes(32),
+  pendingReveals: {
+    ab12: { message: "Revealed later.", salt: randomBytes(32) },
+  },
+});
+
+const withBoardKey = (): StoredBBoardPrivateState => ({
+  secretKey: randomBytes(32),
+  pendingReveals: {},
+  boardKey: randomBytes(32),
+});
+
+const withPendingBids = (): StoredBBoardPrivateState => ({
+  secretKey: randomBytes(32),
+  pendingReveals: {},
+  pendingBids: {
+    cd34: { slot: 0n, amount: 100n, salt: randomBytes(32) },
+  },
+  boardKey: randomBytes(32),
+});
+
+describe("BBoard private state", () => {
+  it("upgrades a private state that only holds a secret key", () => {
+    const stored = secretKeyOnly();
+    expect(migrateBBoardPrivateState(stored)).toEqual({
+      version: BBOARD_PRIVATE_STATE_VERSION,
+      secretKey: stored.secretKey,
+      pendingReveals: {},
+      pendingBids: {},
+    });
+  });
+
+  it("keeps the pending reveals of a private state stored before bids", () => {
+    const stored = withPendingReveals();
+    expect(migrateBBoardPrivateState(stored)).toEqual({
+      version: BBOARD_PRIVATE_STATE_VERSION,
+      secretKey: stored.secretKey,
+      pendingReveals: stored.pendingReveals,
+      pendingBids: {},
+    });
+  });
+
+  it("keeps the board key of a private state stored before bids", () => {
+    const stored = withBoardKey();
+    const privateState = migrateBBoardPrivateState(stored);
+    expect(privateState.boardKey).toEqual(stored.boardKey);
+    expect(privateState.pendingBids).toEqual({});
+  });
+
+  it("keeps every field of an unversioned private state that holds them all", () => {
+    const stored = withPendingBids();
+    expect(migrateBBoardPrivateState(stored)).toEqual({
+      ...stored,
+      version: BBOARD_PRIVATE_STATE_VERSION,
+    });
+  });
+
+  it("returns an up-to-date private state as it is", () => {
+    const privateState = createBBoardPrivateState(randomBytes(32));
+    expect(migrateBBoardPrivateState(privateState)).toBe(privateState);
+  });
+
+  it("rejects a private state stored by a newer version of the DApp", () => {
+    expect(() =>
+      migrateBBoardPrivateState({
+        ...secretKeyOnly(),
+        version: BBOARD_PRIVATE_STATE_VERSION + 1,
+      }),
+    ).toThrow(
+      `Unsupported version ${BBOARD_PRIVATE_STATE_VERSION + 1} of the bulletin board private state`,
+    );
+  });
+
+  it("lets an upgraded private state take down the posts made with it", () => {
+    const stored = secretKeyOnly();
+    const simulator = new BBoardSimulator(stored.secretKey);
+    simulator.post(0n, "Posted before the upgrade.");
+    simulator.circuitContext.currentPrivateState =
+      migrateBBoardPrivateState(stored);
+    expect(simulator.takeDown(0n).posts.member(0n)).toEqual(false);
+  });
+});
+
+// The level provider keeps its stores in a database of its own, which is
+// removed once the tests are done with it.
+const levelDatabase = mkdtempSync(join(tmpdir(), "bboard-private-state-"));
+
+afterAll(() => rmSync(levelDatabase, { recursive: true, force: true }));
+
+type PrivateStateStoreFixture = {
+  get(key: string): Promise<StoredBBoardPrivateState | null>;
+  set(key: string, privateState: StoredBBoardPrivateState): Promise<void>;
+};
+
+// Mirrors the in-memory private state provider of the UI.
+const inMemoryPrivateStateStore = (): PrivateStateStoreFixture => {
+  const record = new Map<string, StoredBBoardPrivateState>();
+  return {
+    get: (key) => Promise.resolve(record.get(key) ?? null),
+    set: (key, privateState) => {
+      record.set(key, privateState);
+      return Promise.resolve();
+    },
+  };
+};
+
+const levelPrivateStateStore = (): PrivateStateStoreFixture => {
+  const storeName = `private-states-${Math.random().toString(16).slice(2)}`;
+  return levelPrivateStateProvider<string, StoredBBoardPrivateState>({
+    midnightDbName: levelDatabase,
+    privateStateStoreName: storeName,
+    signingKeyStoreName: `${storeName}-signing-keys`,
+    privateStoragePasswordProvider: () => "key-just-for-testing-here!",
+  });
+};
+
+describe.each([
+  ["in-memory", inMemoryPrivateStateStore],
+  ["level", levelPrivateStateStore],
+])("BBoard private state loaded from the %s provider", (_, createStore) => {
+  it("migrates a private state stored before versions were recorded, and stores it again", async () => {
+    const store = createStore();
+    const stored = withPendingReveals();
+    await store.set("bboard", stored);
+    const privateState = await loadBBoardPrivateState(store, "bboard");
+    expect(privateState).toEqual(migrateBBoardPrivateState(stored));
+    expect(await store.get("bboard")).toEqual(privateState);
+  });
+
+  it("keeps the board key and bids of a private state when storing it again", async () => {
+    const store = createStore();
+    const stored = withPendingBids();
+    await store.set("bboard", stored);
+    await loadBBoardPrivateState(store, "bboard");
+    expect(await store.get("bboard")).toEqual({
+      ...stored,
+      version: BBOARD_PRIVATE_STATE_VERSION,
+    });
+  });
+
+  it("loads an up-to-date private state as it was stored", async () => {
+    const store = createStore();
+    const privateState = createBBoardPrivateState(randomBytes(32));
+    await store.set("bboard", privateState);
+    expect(await loadBBoardPrivateState(store, "bboard")).toEqual(privateState);
+  });
+
+  it("loads nothing when no private state was stored", async () => {
+    expect(await loadBBoardPrivateState(createStore(), "bboard")).toBeNull();
+  });
+});
@@ -15,11 +15,16 @@
 
 /*
  * This file defines the shape of the bulletin board's private state,
- * as well as the single witness function that accesses it.
+ * as well as the witness functions that access it.
  */
 
-import { Ledger } from "./managed/bboard/contract/index.js";
-import { WitnessContext } from "@midnight-ntwrk/compact-runtime";
+import { Ledger, pureCircuits } from "./managed/bboard/contract/index.js";
+import {
+  MerkleTreePath,
+  signatureVerifyingKey,
+  WitnessContext,
+} from "@midnight-ntwrk/compact-runtime";
+import { authorSigningKey, verifyingKeyHash } from "./authorship.js";
 
 /* **********************************************************************
  * The only hidden state needed by the bulletin board contract is
@@ -27,16 +32,150 @@ import { WitnessContext } from "@midnight-ntwrk/compact-runtime";
  * compiler-generated code is parameterized by the type of our
  * private state, so we define a type for it and a function to
  * make an object of that type.
+ *
+ * The private state also remembers the message and salt behind each
+ * post that the user has committed to but not yet revealed, keyed by
+ * the hex-encoded commitment. The contract never reads them through a
+ * witness; they are kept so that the DApp can reveal the post later.
+ *
+ * In the same way, the private state remembers the amount and salt behind
+ * each sealed bid that the user has made for a slot but not yet revealed,
+ * keyed by the hex-encoded sealed bid.
+ *
+ * The optional board key is a symmetric key shared out of band between
+ * the readers of encrypted posts. Like the pending reveals, it is only
+ * used by the DApp, to encrypt and decrypt messages off-chain.
+ *
+ * Private states outlive the DApp that stores them, so each one records
+ * the version of this type that it was stored with. Private states
+ * stored with earlier versions are brought up to date when they are
+ * loaded, with migrateBBoardPrivateState below.
  */
 
+export const BBOARD_PRIVATE_STATE_VERSION = 1;
+
+export type PendingReveal = {
+  readonly message: string;
+  readonly salt: Uint8Array;
+};
+
+export type PendingBid = {
+  readonly slot: bigint;
+  readonly amount: bigint;
+  readonly salt: Uint8Array;
+};
+
 export type BBoardPrivateState = {
+  readonly version: typeof BBOARD_PRIVATE_STATE_VERSION;
   readonly secretKey: Uint8Array;
+  readonly pendingReveals: Readonly<Record<string, PendingReveal>>;
+  readonly pendingBids: Readonly<Record<string, PendingBid>>;
+  readonly boardKey?: Uint8Array;
 };
 
-export const createBBoardPrivateState = (secretKey: Uint8Array) => ({
+export const createBBoardPrivateState = (
+  secretKey: Uint8Array,
+  pendingReveals: Record<string, PendingReveal> = {},
+  pendingBids: Record<string, PendingBid> = {},
+): BBoardPrivateState => ({
+  version: BBOARD_PRIVATE_STATE_VERSION,
   secretKey,
+  pendingReveals,
+  pendingBids,
 });
 
+/* **********************************************************************
+ * A private state loaded from a private state provider may have been
+ * stored with any earlier version of BBoardPrivateState. Private states
+ * stored before versions were recorded have no version at all, and hold
+ * the secret key along with whichever of the pending reveals, pending
+ * bids and board key the DApp that stored them knew about.
+ *
+ * The migration registry maps each version to the migration that brings
+ * a private state of that version up to the next one; so a change to
+ * BBoardPrivateState bumps BBOARD_PRIVATE_STATE_VERSION, and registers
+ * a migration from the version before it.
+ */
+
+export type StoredBBoardPrivateState = {
+  readonly version?: number;
+  readonly secretKey: Uint8Array;
+  readonly pendingReveals?: Readonly<Record<string, PendingReveal>>;
+  readonly pendingBids?: Readonly<Record<string, PendingBid>>;
+  readonly boardKey?: Uint8Array;
+};
+
+type PrivateStateMigration = (
+  privateState: StoredBBoardPrivateState,
+) => StoredBBoardPrivateState;
+
+const privateStateMigrations: Readonly<Record<number, PrivateStateMigration>> =
+  {
+    0: (privateState) => ({
+      ...privateState,
+      pendingReveals: privateState.pendingReveals ?? {},
+      pendingBids: privateState.pendingBids ?? {},
+    }),
+  };
+
+/**
+ * Brings a private state stored with any earlier version of
+ * BBoardPrivateState up to date, by running each migration from its
+ * version onwards. Up-to-date private states are returned as they are.
+ */
+export const migrateBBoardPrivateState = (
+  storedPrivateState: StoredBBoardPrivateState,
+): BBoardPrivateState => {
+  let privateState = storedPrivateState;
+  while ((privateState.version ?? 0) < BBOARD_PRIVATE_STATE_VERSION) {
+    const version = privateState.version ?? 0;
+    const migrate = privateStateMigrations[version];
+    if (migrate === undefined) {
+      throw new Error(
+        `No migration from version ${version} of the bulletin board private state`,
+      );
+    }
+    privateState = { ...migrate(privateState), version: version + 1 };
+  }
+  if (privateState.version !== BBOARD_PRIVATE_STATE_VERSION) {
+    throw new Error(
+      `Unsupported version ${privateState.version} of the bulletin board private state`,
+    );
+  }
+  return privateState as BBoardPrivateState;
+};
+
+/**
+ * The part of a private state provider that a private state is loaded from
+ * and stored back to
+ */
+export type BBoardPrivateStateStore<K> = {
+  get(key: K): Promise<StoredBBoardPrivateState | null>;
+  set(key: K, privateState: BBoardPrivateState): Promise<void>;
+};
+
+/**
+ * Loads the private state stored under a given key, if there is one, and
+ * brings it up to date with migrateBBoardPrivateState. A private state
+ * stored with an earlier version is stored again once it is migrated, so
+ * that circuits, which read the private state straight from the provider,
+ * see it too.
+ */
+export const loadBBoardPrivateState = async <K>(
+  store: BBoardPrivateStateStore<K>,
+  key: K,
+): Promise<BBoardPrivateState | null> => {
+  const storedPrivateState = await store.get(key);
+  if (storedPrivateState === null) {
+    return null;
+  }
+  const privateState = migrateBBoardPrivateState(storedPrivateState);
+  if (privateState !== storedPrivateState) {
+    await store.set(key, privateState);
+  }
+  return privateState;
+};
+
 /* **********************************************************************
  * The witnesses object for the bulletin board contract is an object
  * with a field for each witness function, mapping the name of the function
@@ -71,4 +210,89 @@ export const witnesses = {
     BBoardPrivateState,
     Uint8Array,
   ] => [privateState, privateState.secretKey],
+
+  /*
+   * The localMembershipPath witness proves that the user is a member of
+   * a members-only board, by finding the path to their member key in the
+   * members tree of the ledger. When the user isn't a member, it returns
+   * the path that their key would have in the first leaf, which the
+   * contract rejects since it doesn't lead to a known root.
+   */
+  localMembershipPath: ({
+    ledger,
+    privateState,
+  }: WitnessContext<Ledger, BBoardPrivateState>): [
+    BBoardPrivateState,
+    MerkleTreePath<Uint8Array>,
+  ] => {
+    const member = pureCircuits.memberKey(privateState.secretKey);
+    return [
+      privateState,
+      ledger.members.findPathForLeaf(member) ??
+        ledger.members.pathForLeaf(0n, member),
+    ];
+  },
+
+  /*
+   * The localModeratorPath witness proves that the user is on the
+   * moderator committee of the board in the same way, by finding the
+   * path to their moderator key in the committee tree of the ledger.
+   */
+  localModeratorPath: ({
+    ledger,
+    privateState,
+  }: WitnessContext<Ledger, BBoardPrivateState>): [
+    BBoardPrivateState,
+    MerkleTreePath<Uint8Array>,
+  ] => {
+    const moderator = pureCircuits.moderatorKey(privateState.secretKey);
+    return [
+      privateState,
+      ledger.committee.findPathForLeaf(moderator) ??
+        ledger.committee.pathForLeaf(0n, moderator),
+    ];
+  },
+
+  /*
+   * The localGateCoin witness describes a fresh coin of the board's token,
+   * worth a single unit, for the contract to receive from the user and
+   * send straight back to them. The coin is funded when the wallet balances
+   * the transaction, which it can only do if the user holds the token; so
+   * posting proves that they do, without revealing which of their coins
+   * paid for it. The coin sent back is shielded, so its commitment doesn't
+   * reveal the user's coin public key either.
+   */
+  localGateCoin: ({
+    ledger,
+    privateState,
+  }: WitnessContext<Ledger, BBoardPrivateState>): [
+    BBoardPrivateState,
+    { nonce: Uint8Array; color: Uint8Array; value: bigint },
+  ] => [
+    privateState,
+    {
+      nonce: crypto.getRandomValues(new Uint8Array(32)),
+      color: ledger.gateToken,
+      value: 1n,
+    },
+  ],
+
+  /*
+   * The localAuthorVerifyingKey witness gives the hash of the verifying key
+   * that the user will sign for a new post with, derived from the user's
+   * secret key and the sequence of the post. The circuit binds it to a
+   * secret derived from the same secret key, so that the user can sign for
+   * the post later with `signAuthorship`.
+   */
+  localAuthorVerifyingKey: (
+    { privateState }: WitnessContext<Ledger, BBoardPrivateState>,
+    postSequence: bigint,
+  ): [BBoardPrivateState, Uint8Array] => [
+    privateState,
+    verifyingKeyHash(
+      signatureVerifyingKey(
+        authorSigningKey(privateState.secretKey, postSequence),
+      ),
+    ),
+  ],
 };